@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { calculateAggregatedScore, calculateConfidence } from '@/lib/scoring';
+import { calculateCredibleInterval, explainAggregatedScore, explainConfidence } from '@/lib/scoring';
+import { calibrateReviews } from '@/lib/calibration';
+import { detectAnomalies } from '@/lib/anomaly';
 import { calculateDistance, estimateTravelTime } from '@/lib/geolocation';
-import { calculateValueScore, isExceptionalRestaurant } from '@/lib/ranking';
+import { explainValueScore, ratingForMode, isExceptionalRestaurant, rankingProfileError, resolveRankingProfile, checkIfOpen } from '@/lib/ranking';
+import { resolveTimeZone } from '@/lib/timezone';
+import { cuisineFromLabel } from '@/lib/cuisine';
 import { WeightingConfig, Restaurant, PlatformReview } from '@/types';
 
 interface DemoRestaurant {
@@ -122,9 +126,23 @@ export async function POST(request: NextRequest) {
       userLat,
       userLon,
       maxTravelTimeMin = 20,
+      rankingProfile,
       openNowOnly = true,
+      timeZone,
     } = body;
 
+    // The value score divides by this
+    if (typeof maxTravelTimeMin !== 'number' || !Number.isFinite(maxTravelTimeMin) || maxTravelTimeMin <= 0) {
+      return NextResponse.json({ error: 'maxTravelTimeMin must be a positive number' }, { status: 400 });
+    }
+
+    // Value curve and "exceptional" cut-offs, tuned by the client's profile
+    const profileError = rankingProfileError(rankingProfile);
+    if (profileError) {
+      return NextResponse.json({ error: profileError }, { status: 400 });
+    }
+    const ranking = resolveRankingProfile(rankingProfile);
+
     const config: WeightingConfig = weightingConfig || {
       strategy: 'bayesian_average',
       bayesianPrior: 3.5,
@@ -132,9 +150,12 @@ export async function POST(request: NextRequest) {
     };
 
     const currentTime = new Date();
-    const dayOfWeek = currentTime.getDay();
-    const currentHour = currentTime.getHours();
-    const currentMinute = currentTime.getMinutes();
+    // Demo restaurants are all in New York unless the caller says otherwise
+    const zone = await resolveTimeZone({
+      timeZone: timeZone ?? (userLat && userLon ? undefined : 'America/New_York'),
+      latitude: userLat,
+      longitude: userLon,
+    });
 
     // If searching for specific restaurant, find it
     // Otherwise, return all nearby restaurants ranked
@@ -161,9 +182,12 @@ export async function POST(request: NextRequest) {
 
     // Process each restaurant
     const processedRestaurants: Restaurant[] = restaurantsToProcess.map(([key, data]) => {
-      const reviews = data.reviews;
-      const aggregatedScore = calculateAggregatedScore(reviews, config);
-      const confidence = calculateConfidence(reviews);
+      const reviews = config.calibrate === false ? data.reviews : calibrateReviews(data.reviews);
+      const anomalies = detectAnomalies(reviews);
+      const aggregate = explainAggregatedScore(reviews, config, anomalies);
+      const confidence = explainConfidence(reviews);
+      const aggregatedScore = aggregate.score;
+      const ratingInterval = calculateCredibleInterval(reviews);
       
       // Calculate distance and travel time if user location provided
       let distanceKm: number | undefined;
@@ -175,46 +199,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Check if open now
-      const todayHours = data.hours[dayOfWeek];
-      let isOpenNow = true;
-      let openUntil: string | undefined;
-
-      if (todayHours.toLowerCase().includes('closed')) {
-        isOpenNow = false;
-      } else if (todayHours.toLowerCase().includes('24 hours')) {
-        isOpenNow = true;
-        openUntil = '24 hours';
-      } else {
-        // Parse hours like "Mon: 10:00 AM - 2:00 AM"
-        const timeMatch = todayHours.match(/(\d{1,2}):(\d{2})\s*(AM|PM)\s*-\s*(\d{1,2}):(\d{2})\s*(AM|PM)/i);
-        if (timeMatch) {
-          let openHour = parseInt(timeMatch[1]);
-          const openMin = parseInt(timeMatch[2]);
-          const openAmPm = timeMatch[3].toUpperCase();
-          let closeHour = parseInt(timeMatch[4]);
-          const closeMin = parseInt(timeMatch[5]);
-          const closeAmPm = timeMatch[6].toUpperCase();
-
-          if (openAmPm === 'PM' && openHour !== 12) openHour += 12;
-          if (openAmPm === 'AM' && openHour === 12) openHour = 0;
-          if (closeAmPm === 'PM' && closeHour !== 12) closeHour += 12;
-          if (closeAmPm === 'AM' && closeHour === 12) closeHour = 0;
-
-          const openTimeNum = openHour * 60 + openMin;
-          let closeTimeNum = closeHour * 60 + closeMin;
-          const currentTimeNum = currentHour * 60 + currentMinute;
-
-          // Handle overnight hours (e.g., 10 AM - 2 AM)
-          if (closeTimeNum < openTimeNum) {
-            closeTimeNum += 24 * 60;
-          }
-
-          isOpenNow = currentTimeNum >= openTimeNum && currentTimeNum < closeTimeNum;
-          if (isOpenNow) {
-            openUntil = `${timeMatch[4]}:${timeMatch[5]} ${timeMatch[6]}`;
-          }
-        }
-      }
+      const { isOpen: isOpenNow, openUntil } = checkIfOpen(data.hours, currentTime, zone);
 
       // Build restaurant object
       const restaurant: Restaurant = {
@@ -222,10 +207,14 @@ export async function POST(request: NextRequest) {
         name: formatName(key),
         address: location || 'New York, NY',
         cuisine: data.cuisine,
+        cuisineIds: [cuisineFromLabel(data.cuisine)].filter((c): c is string => !!c),
         priceLevel: data.priceLevel,
         reviews,
         aggregatedScore,
-        confidence,
+        confidence: confidence.score,
+        ratingInterval,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+        explanation: { aggregate, confidence },
         latitude: data.latitude,
         longitude: data.longitude,
         hours: data.hours,
@@ -236,18 +225,26 @@ export async function POST(request: NextRequest) {
       };
 
       // Calculate if exceptional and value score
-      const exceptional = isExceptionalRestaurant(restaurant);
+      const exceptional = isExceptionalRestaurant(
+        restaurant,
+        ranking.exceptionalThreshold,
+        ranking.exceptionalReviewMin
+      );
       restaurant.isExceptional = exceptional;
       
       if (travelTimeMin !== undefined) {
-        restaurant.valueScore = calculateValueScore(
-          aggregatedScore,
+        const value = explainValueScore(
+          ratingForMode(aggregatedScore, ratingInterval, ranking.mode),
           travelTimeMin,
           maxTravelTimeMin,
-          exceptional
+          exceptional,
+          ranking.valueCurve,
+          data.priceLevel.length
         );
+        restaurant.valueScore = value.score;
+        restaurant.explanation = { aggregate, confidence, value, rankingMode: ranking.mode };
       } else {
-        restaurant.valueScore = aggregatedScore;
+        restaurant.valueScore = ratingForMode(aggregatedScore, ratingInterval, ranking.mode);
       }
 
       return restaurant;
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findGroupCandidates, getGroupSession, memberForToken, toPublicSession, updateGroupSession } from '@/lib/group';
+
+/**
+ * (Re)build the shortlist for everyone who has joined. Clears earlier votes,
+ * so only a member (by token) may do it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { memberToken } = await request.json();
+    const session = await getGroupSession(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+    if (!memberForToken(session, memberToken)) {
+      return NextResponse.json({ error: 'Join the session to search' }, { status: 403 });
+    }
+    if (session.members.length === 0) {
+      return NextResponse.json({ error: 'Nobody has joined yet' }, { status: 400 });
+    }
+
+    const candidates = await findGroupCandidates(session);
+
+    // Someone who joined during the search has no travel times in this shortlist
+    const memberIds = session.members.map(m => m.id).join();
+    let joinedMeanwhile = false;
+    const updated = await updateGroupSession(id, latest => {
+      joinedMeanwhile = latest.members.map(m => m.id).join() !== memberIds;
+      return joinedMeanwhile ? latest : { ...latest, candidates, votes: {}, winnerId: undefined };
+    });
+    if (!updated) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+    if (joinedMeanwhile) {
+      return NextResponse.json({ error: 'Someone joined while searching, try again' }, { status: 409 });
+    }
+
+    return NextResponse.json({ session: toPublicSession(updated) });
+  } catch (error) {
+    console.error('Group candidates error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMember, getGroupSession, toPublicSession, updateGroupSession } from '@/lib/group';
+
+/**
+ * Join a session with your own location and constraints. The returned
+ * member carries the token needed to vote; nobody else ever sees it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const session = await getGroupSession(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+
+    let member;
+    try {
+      member = createMember(body);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid member' },
+        { status: 400 }
+      );
+    }
+
+    // A new member changes who can reach what, so earlier candidates and votes no longer apply
+    const updated = await updateGroupSession(id, latest => ({
+      ...latest,
+      members: [...latest.members, member],
+      candidates: [],
+      votes: {},
+      winnerId: undefined,
+    }));
+    if (!updated) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ member, session: toPublicSession(updated) }, { status: 201 });
+  } catch (error) {
+    console.error('Group join error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGroupSession, toPublicSession } from '@/lib/group';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await getGroupSession(id);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+  }
+  return NextResponse.json({ session: toPublicSession(session) });
+}
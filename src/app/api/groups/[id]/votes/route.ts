@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGroupSession, memberForToken, recordVote, toPublicSession, updateGroupSession } from '@/lib/group';
+
+/**
+ * Vote yes/no on a candidate as the member whose token is sent. The response
+ * says if a place has won.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { memberToken, restaurantId, vote } = await request.json();
+    if (vote !== 'yes' && vote !== 'no') {
+      return NextResponse.json({ error: 'Vote must be "yes" or "no"' }, { status: 400 });
+    }
+
+    const session = await getGroupSession(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+
+    const member = memberForToken(session, memberToken);
+    if (!member) {
+      return NextResponse.json({ error: 'Join the session to vote' }, { status: 403 });
+    }
+
+    try {
+      recordVote(session, member.id, restaurantId, vote);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid vote' },
+        { status: 400 }
+      );
+    }
+
+    // Apply to the latest copy, so a vote landing at the same time isn't lost
+    const updated = await updateGroupSession(id, latest => recordVote(latest, member.id, restaurantId, vote));
+    if (!updated) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ session: toPublicSession(updated), winnerId: updated.winnerId });
+  } catch (error) {
+    console.error('Group vote error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
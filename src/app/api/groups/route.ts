@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGroupSession, toPublicSession } from '@/lib/group';
+
+/**
+ * Start a group session. Share `/group/{id}` so others can join.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { name, plannedTime = 'now', timeZone } = await request.json();
+
+    try {
+      const session = await createGroupSession({ name, plannedTime, timeZone });
+      return NextResponse.json({ session: toPublicSession(session), sharePath: `/group/${session.id}` }, { status: 201 });
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid session' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Group create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectRatingDrops, getRatingHistory } from '@/lib/history';
+
+/**
+ * A place's rating and review-count history, with any sudden drops.
+ * Optional query: ?days=90 to limit how far back, ?platform=yelp for one platform.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const days = request.nextUrl.searchParams.get('days');
+    const platform = request.nextUrl.searchParams.get('platform') ?? undefined;
+
+    const sinceDays = days !== null ? Number(days) : undefined;
+    if (sinceDays !== undefined && !(sinceDays > 0)) {
+      return NextResponse.json({ error: 'days must be a positive number' }, { status: 400 });
+    }
+
+    const snapshots = await getRatingHistory(id, { sinceDays, platform });
+    return NextResponse.json({
+      placeId: id,
+      snapshots,
+      drops: detectRatingDrops(snapshots),
+    });
+  } catch (error) {
+    console.error('Rating history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
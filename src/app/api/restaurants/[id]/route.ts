@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRestaurantDetails } from '@/lib/details';
+
+/**
+ * Everything known about one place (by Google place id): Place Details merged
+ * with every review provider, scored as search would score it.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const details = await getRestaurantDetails(id);
+    if (!details) {
+      return NextResponse.json({ error: 'Restaurant not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      restaurant: details.restaurant,
+      fetchedAt: details.fetchedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Restaurant details error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
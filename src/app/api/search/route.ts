@@ -1,11 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeAllPlatforms } from '@/lib/scrapers';
-import { fetchAllPlatformReviews } from '@/lib/apis';
-import { calculateAggregatedScore, calculateConfidence } from '@/lib/scoring';
-import { calculateDistance, estimateTravelTime, estimateWalkTime, estimateDriveTime } from '@/lib/geolocation';
-import { calculateValueScore, isExceptionalRestaurant } from '@/lib/ranking';
-import { searchNearbyPlaces, textSearchPlace, isOpenAtTime } from '@/lib/places';
-import { WeightingConfig, Restaurant, PlatformReview } from '@/types';
+import { scrapeAllPlatforms, getScraperPlatforms } from '@/lib/scrapers';
+import { fetchAllPlatformReviews, withRecentReviews } from '@/lib/apis';
+import { calculateCredibleInterval, explainAggregatedScore, explainConfidence } from '@/lib/scoring';
+import { calibrateReviews } from '@/lib/calibration';
+import { detectTrend } from '@/lib/recency';
+import { detectRatingDrops, getRatingHistory, hasPersistentHistory, recordSnapshots } from '@/lib/history';
+import { detectAnomalies } from '@/lib/anomaly';
+import { analyzeReviews, aspectSortScore, meetsAspects, ASPECTS } from '@/lib/sentiment';
+import { calculateDistance, estimateTravelTime } from '@/lib/geolocation';
+import { getTravelTimeMatrix, pickTravelTime, searchRadiusMeters, TRAVEL_MODES } from '@/lib/routing';
+import {
+  explainValueScore,
+  isExceptionalRestaurant,
+  rankingProfileError,
+  ratingForMode,
+  resolveRankingProfile,
+} from '@/lib/ranking';
+import { searchNearbyPlaces, textSearchPlace, isOpenDuring, getPhotoUrl } from '@/lib/places';
+import { getOpenStatus, parseGooglePeriods, formatOpenUntil } from '@/lib/hours';
+import { resolveTimeZone } from '@/lib/timezone';
+import { resolvePlannedWindow, DEFAULT_DINING_DURATION_MIN } from '@/lib/planning';
+import { assessDietaryMatch, dietaryKeyword, meetsDietaryNeeds, DIETARY_NEEDS, DIETARY_SIGNALS } from '@/lib/dietary';
+import { personalAdjustment, preferenceProfileError, rankingScore, DEFAULT_FAVORITE_BOOST } from '@/lib/preferences';
+import { everyoneWithin, fairTravelTime, meetingArea, FAIRNESS_OBJECTIVES } from '@/lib/meeting';
+import { cuisineLabel, isCuisine, passesCuisineFilter, resolveCuisines, surpriseOrder } from '@/lib/cuisine';
+import {
+  WeightingConfig,
+  Restaurant,
+  PlatformReview,
+  PlatformId,
+  TravelModePreference,
+  DietaryNeed,
+  FairnessObjective,
+  PersonTravelTime,
+  SearchParams,
+  Aspect,
+} from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,53 +47,179 @@ export async function POST(request: NextRequest) {
       platforms,
       userLat,
       userLon,
+      origins,
+      fairness = 'min_max',
       maxTravelTimeMin = 20,
+      rankingProfile,
+      travelMode: requestedTravelMode = 'drive',
       plannedTime = 'now',
+      diningDurationMin = DEFAULT_DINING_DURATION_MIN,
+      timeZone,
+      price = {},
+      dietary = [],
+      cuisines: cuisineFilter = {},
+      surpriseMe = false,
+      recentCuisines = [],
+      aspects = [],
+      sortByAspect,
+      personalization,
+      favorites = [],
+      blocked = [],
+      favoriteBoost = DEFAULT_FAVORITE_BOOST,
     } = body;
 
-    // Convert plannedTime to actual Date for filtering
-    const getPlannedDate = (time: string): Date => {
-      const now = new Date();
-      const currentHour = now.getHours();
-      
-      switch (time) {
-        case 'breakfast': {
-          const target = new Date(now);
-          target.setHours(8, 0, 0, 0);
-          if (currentHour >= 8) target.setDate(target.getDate() + 1);
-          return target;
-        }
-        case 'lunch': {
-          const target = new Date(now);
-          target.setHours(12, 0, 0, 0);
-          if (currentHour >= 12) target.setDate(target.getDate() + 1);
-          return target;
-        }
-        case 'dinner': {
-          const target = new Date(now);
-          target.setHours(19, 0, 0, 0);
-          if (currentHour >= 19) target.setDate(target.getDate() + 1);
-          return target;
-        }
-        case 'tomorrow_lunch': {
-          const target = new Date(now);
-          target.setDate(target.getDate() + 1);
-          target.setHours(12, 0, 0, 0);
-          return target;
-        }
-        case 'tomorrow_dinner': {
-          const target = new Date(now);
-          target.setDate(target.getDate() + 1);
-          target.setHours(19, 0, 0, 0);
-          return target;
-        }
-        default:
-          return now;
-      }
+    const validTravelModes: string[] = [...TRAVEL_MODES, 'best'];
+    if (!validTravelModes.includes(requestedTravelMode)) {
+      return NextResponse.json(
+        { error: `Unknown travel mode: ${requestedTravelMode}` },
+        { status: 400 }
+      );
+    }
+    const travelMode: TravelModePreference = requestedTravelMode;
+
+    // The value score divides by this
+    if (typeof maxTravelTimeMin !== 'number' || !Number.isFinite(maxTravelTimeMin) || maxTravelTimeMin <= 0) {
+      return NextResponse.json({ error: 'maxTravelTimeMin must be a positive number' }, { status: 400 });
+    }
+
+    if (typeof price !== 'object' || price === null || Array.isArray(price)) {
+      return NextResponse.json({ error: 'Price must be an object with min and/or max' }, { status: 400 });
+    }
+    const { min: minPrice, max: maxPrice } = price as { min?: number; max?: number };
+    const isPriceLevel = (level?: number) =>
+      level === undefined || (Number.isInteger(level) && level >= 1 && level <= 4);
+    if (!isPriceLevel(minPrice) || !isPriceLevel(maxPrice) || (minPrice ?? 1) > (maxPrice ?? 4)) {
+      return NextResponse.json(
+        { error: 'Price range must be levels 1-4 with min <= max' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(dietary) || dietary.some(n => typeof n !== 'string')) {
+      return NextResponse.json({ error: 'Dietary needs must be a list of strings' }, { status: 400 });
+    }
+    const unknownNeeds = (dietary as string[]).filter(n => !(DIETARY_NEEDS as string[]).includes(n));
+    if (unknownNeeds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown dietary need: ${unknownNeeds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const dietaryNeeds: DietaryNeed[] = dietary;
+
+    const isStringList = (value: unknown) =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (
+      typeof cuisineFilter !== 'object' || cuisineFilter === null || Array.isArray(cuisineFilter) ||
+      (cuisineFilter.include !== undefined && !isStringList(cuisineFilter.include)) ||
+      (cuisineFilter.exclude !== undefined && !isStringList(cuisineFilter.exclude)) ||
+      !isStringList(recentCuisines)
+    ) {
+      return NextResponse.json(
+        { error: 'cuisines must be { include?, exclude? } lists of cuisine ids, and recentCuisines a list' },
+        { status: 400 }
+      );
+    }
+    const { include: includeCuisines = [], exclude: excludeCuisines = [] } = cuisineFilter as {
+      include?: string[];
+      exclude?: string[];
     };
+    const unknownCuisines = [...includeCuisines, ...excludeCuisines].filter(id => !isCuisine(id));
+    if (unknownCuisines.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown cuisine: ${unknownCuisines.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isStringList(aspects) || (sortByAspect !== undefined && typeof sortByAspect !== 'string')) {
+      return NextResponse.json({ error: 'aspects must be a list of aspect names' }, { status: 400 });
+    }
+    const unknownAspects = [...aspects, ...(sortByAspect ? [sortByAspect] : [])].filter(a => !ASPECTS.includes(a));
+    if (unknownAspects.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown aspect: ${unknownAspects.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const requiredAspects = aspects as Aspect[];
+
+    if (!isStringList(favorites) || !isStringList(blocked)) {
+      return NextResponse.json({ error: 'favorites and blocked must be lists of place ids' }, { status: 400 });
+    }
+    if (typeof favoriteBoost !== 'number' || !Number.isFinite(favoriteBoost) || favoriteBoost < 0 || favoriteBoost > 5) {
+      return NextResponse.json({ error: 'favoriteBoost must be a number of stars from 0 to 5' }, { status: 400 });
+    }
+    const personalizationError = preferenceProfileError(personalization);
+    if (personalizationError) {
+      return NextResponse.json({ error: personalizationError }, { status: 400 });
+    }
+
+    // Several origins: meet in the middle. Each person can override the travel mode.
+    if (origins !== undefined && origins !== null && !Array.isArray(origins)) {
+      return NextResponse.json({ error: 'origins must be a list' }, { status: 400 });
+    }
+    const originList = (origins ?? []) as NonNullable<SearchParams['origins']>;
+    const isCoordinate = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+    if (originList.some(o =>
+      typeof o !== 'object' || o === null || !isCoordinate(o.latitude) || !isCoordinate(o.longitude)
+    )) {
+      return NextResponse.json({ error: 'Every origin needs a latitude and longitude' }, { status: 400 });
+    }
+    if (originList.some(o => o.travelMode !== undefined && !validTravelModes.includes(o.travelMode))) {
+      return NextResponse.json({ error: 'Unknown travel mode in origins' }, { status: 400 });
+    }
+    if (!FAIRNESS_OBJECTIVES.includes(fairness)) {
+      return NextResponse.json({ error: `Unknown fairness objective: ${fairness}` }, { status: 400 });
+    }
+    const fairnessObjective: FairnessObjective = fairness;
+    const people = originList.length > 0
+      ? originList.map((o, i) => ({
+          label: o.label || `Person ${i + 1}`,
+          latitude: o.latitude,
+          longitude: o.longitude,
+          travelMode: o.travelMode ?? travelMode,
+          maxTravelTimeMin,
+        }))
+      : undefined;
+    const area = people ? meetingArea(people) : undefined;
+    const searchLat: number | undefined = area?.center.latitude ?? userLat;
+    const searchLon: number | undefined = area?.center.longitude ?? userLon;
 
-    const plannedDate = getPlannedDate(plannedTime);
-    const isNow = plannedTime === 'now';
+    // Evaluate hours and meal presets on the diner's clock, not the server's
+    const zone = await resolveTimeZone({ timeZone, latitude: searchLat, longitude: searchLon });
+
+    // Convert plannedTime into an arrival window for filtering
+    const isPlannedText = (value: unknown) => typeof value === 'string';
+    const plannedShapeOk = isPlannedText(plannedTime) || (
+      typeof plannedTime === 'object' && plannedTime !== null && isPlannedText(plannedTime.start) &&
+      (plannedTime.end === undefined || isPlannedText(plannedTime.end))
+    );
+    if (!plannedShapeOk) {
+      return NextResponse.json(
+        { error: 'plannedTime must be a string or { start, end? } with string times' },
+        { status: 400 }
+      );
+    }
+    if (typeof diningDurationMin !== 'number' || !Number.isFinite(diningDurationMin) || diningDurationMin <= 0) {
+      return NextResponse.json({ error: 'diningDurationMin must be a positive number' }, { status: 400 });
+    }
+    const plannedWindow = resolvePlannedWindow(plannedTime, zone);
+    if (!plannedWindow) {
+      return NextResponse.json(
+        { error: `Could not understand planned time: ${JSON.stringify(plannedTime)}` },
+        { status: 400 }
+      );
+    }
+    const plannedDate = plannedWindow.start;
+    const isNow = plannedWindow.isNow;
+
+    // Value curve and "exceptional" cut-offs, tuned by the client's profile
+    const profileError = rankingProfileError(rankingProfile);
+    if (profileError) {
+      return NextResponse.json({ error: profileError }, { status: 400 });
+    }
+    const ranking = resolveRankingProfile(rankingProfile);
 
     const config: WeightingConfig = weightingConfig || {
       strategy: 'bayesian_average',
@@ -71,19 +227,21 @@ export async function POST(request: NextRequest) {
       bayesianMinReviews: 10,
     };
 
-    const selectedPlatforms: PlatformReview['platform'][] = platforms || [
-      'google',
-      'yelp',
-      'tripadvisor',
-      'foursquare',
-    ];
+    // Review text costs a call per place and platform, so it's only fetched for
+    // every candidate when ranking or a strict dietary need depends on it; otherwise
+    // just for the results shown
+    const samplesForRanking = config.strategy === 'recency_weighted' || requiredAspects.length > 0 || !!sortByAspect ||
+      dietaryNeeds.some(need => DIETARY_SIGNALS[need].strict);
+
+    // No explicit selection means every registered source
+    const selectedPlatforms: PlatformId[] | undefined = platforms;
 
     // Check if this is a nearby search or specific restaurant search
     const isNearbySearch = query === 'nearby' || query === '' || !query;
 
     if (isNearbySearch) {
       // Use Google Places API to find nearby restaurants
-      if (!userLat || !userLon) {
+      if (!searchLat || !searchLon) {
         return NextResponse.json(
           { error: 'Location is required for nearby search' },
           { status: 400 }
@@ -91,64 +249,109 @@ export async function POST(request: NextRequest) {
       }
 
       try {
-        // Calculate radius based on travel time (rough estimate: 20 min ≈ 8km at urban speeds)
-        const radiusMeters = Math.round((maxTravelTimeMin / 20) * 8000);
+        // Calculate radius from how far the chosen mode gets in maxTravelTimeMin
+        // (for several origins: the area everyone can reach)
+        const radiusMeters = area?.radiusMeters ?? searchRadiusMeters(maxTravelTimeMin, travelMode);
+
+        // Let Google narrow candidates to the dietary needs (and a single wanted cuisine) up front
+        const dietaryTerms = dietaryKeyword(dietaryNeeds);
+        const cuisineTerm = includeCuisines.length === 1 ? cuisineLabel(includeCuisines[0]) : undefined;
+        const keyword = [dietaryTerms, cuisineTerm].filter(Boolean).join(' ') || undefined;
         
         const allPlaces = await searchNearbyPlaces({
-          latitude: userLat,
-          longitude: userLon,
+          latitude: searchLat,
+          longitude: searchLon,
           radius: radiusMeters,
+          keyword,
           openNow: isNow, // Only filter by "open now" if searching for right now
+          minPrice,
+          maxPrice,
         });
 
-        // Filter to only places with Google rating >= 4.0
-        const qualityPlaces = allPlaces.filter(p => (p.rating || 0) >= 4.0);
+        // Filter to only places with Google rating >= 4.0, never anything the user blocked
+        const blockedIds = new Set<string>(blocked);
+        const qualityPlaces = allPlaces.filter(p => (p.rating || 0) >= 4.0 && !blockedIds.has(p.placeId));
         
         // Sort by Google rating descending, take top 20 for enrichment
         const topPlaces = qualityPlaces
           .sort((a, b) => (b.rating || 0) - (a.rating || 0))
           .slice(0, 20);
 
-        // Enrich top 20 with Yelp/TripAdvisor data in parallel
+        // Travel times to every candidate in one batch (one per person when meeting in the middle)
+        const destinations = topPlaces.map(p => ({ latitude: p.latitude, longitude: p.longitude }));
+        const travelTimes = await getTravelTimeMatrix({ latitude: searchLat, longitude: searchLon }, destinations);
+        const personTimes = people
+          ? await Promise.all(people.map(p => getTravelTimeMatrix(p, destinations)))
+          : [];
+
+        // Enrich top 20 with data from the selected providers in parallel
         const restaurants: Restaurant[] = await Promise.all(
-          topPlaces.map(async (place) => {
+          topPlaces.map(async (place, index) => {
             // Start with Google's rating from Places API
             const googleReview: PlatformReview = {
               platform: 'google',
               rating: place.rating || 0,
               reviewCount: place.userRatingsTotal || 0,
+              lastUpdated: place.fetchedAt,
             };
 
-            // Fetch from Yelp, Foursquare, TripAdvisor APIs in parallel
+            // Fetch from the selected review providers in parallel
+            const includeGoogle = !selectedPlatforms || selectedPlatforms.includes('google');
             const additionalReviews = await fetchAllPlatformReviews(
-              place.name,
-              place.address
+              {
+                placeId: place.placeId,
+                name: place.name,
+                location: place.address,
+                latitude: place.latitude,
+                longitude: place.longitude,
+              },
+              selectedPlatforms
             );
 
-            const allReviews = [googleReview, ...additionalReviews].filter(r => r.rating > 0);
+            const baseReviews = includeGoogle ? [googleReview] : [];
+            const ratedReviews = [...baseReviews, ...additionalReviews].filter(r => r.rating > 0);
+            const foundReviews = samplesForRanking
+              ? await withRecentReviews(ratedReviews, place.placeId)
+              : ratedReviews;
+            const allReviews = config.calibrate === false ? foundReviews : calibrateReviews(foundReviews);
 
-            const aggregatedScore = calculateAggregatedScore(allReviews, config);
-            const confidence = calculateConfidence(allReviews);
+            await recordSnapshots(place.placeId, foundReviews);
+            const snapshots = await getRatingHistory(place.placeId);
+            const ratingDrops = detectRatingDrops(snapshots);
+            // A week of per-process history can't show a burst, only a persistent store can
+            const anomalies = detectAnomalies(allReviews, hasPersistentHistory() ? snapshots : []);
+
+            const aggregate = explainAggregatedScore(allReviews, config, anomalies);
+            const confidence = explainConfidence(allReviews);
+            const aggregatedScore = aggregate.score;
+            const ratingInterval = calculateCredibleInterval(allReviews);
             
-            const distanceKm = calculateDistance(userLat, userLon, place.latitude, place.longitude);
-            const walkTimeMin = estimateWalkTime(distanceKm);
-            const driveTimeMin = estimateDriveTime(distanceKm);
+            const distanceKm = calculateDistance(searchLat, searchLon, place.latitude, place.longitude);
+            const {
+              walk: walkTimeMin,
+              bike: bikeTimeMin,
+              drive: driveTimeMin,
+              transit: transitTimeMin,
+            } = travelTimes[index];
+            // The time that's scored and filtered depends on how the user travels,
+            // or for several people on everyone's trip under the fairness objective
+            const personTravelTimes: PersonTravelTime[] | undefined = people?.map((person, i) => ({
+              label: person.label,
+              ...pickTravelTime(personTimes[i][index], person.travelMode),
+            }));
+            const chosen = personTravelTimes
+              ? { mode: undefined, minutes: fairTravelTime(personTravelTimes.map(t => t.minutes), fairnessObjective) }
+              : pickTravelTime(travelTimes[index], travelMode);
 
             // Build Google Maps URL
             const googleMapsUrl = `https://www.google.com/maps/place/?q=place_id:${place.placeId}`;
             
-            // Extract cuisine from types
-            const cuisineTypes = (place.types || []).filter((t: string) => 
-              !['restaurant', 'food', 'point_of_interest', 'establishment'].includes(t)
-            );
-            const cuisine = cuisineTypes.length > 0 
-              ? cuisineTypes[0].replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())
-              : undefined;
+            // Cuisine from Google types and provider categories, on one taxonomy
+            const cuisineIds = resolveCuisines(place.types, allReviews, place.name);
+            const cuisine = cuisineIds.length > 0 ? cuisineLabel(cuisineIds[0]) : undefined;
 
             // Build photo URL if available
-            const photoUrl = place.photos && place.photos[0] 
-              ? `https://maps.googleapis.com/maps/api/place/photo?maxwidth=400&photoreference=${place.photos[0]}&key=${process.env.GOOGLE_PLACES_API_KEY}`
-              : undefined;
+            const photoUrl = place.photos && place.photos[0] ? getPhotoUrl(place.photos[0]) : undefined;
 
             const restaurant: Restaurant = {
               id: place.placeId,
@@ -159,51 +362,133 @@ export async function POST(request: NextRequest) {
               priceLevel: place.priceLevel ? '$'.repeat(place.priceLevel) : undefined,
               reviews: allReviews,
               aggregatedScore,
-              confidence,
+              confidence: confidence.score,
+              ratingInterval,
+              trend: detectTrend(allReviews, config.recentWindowDays),
+              ratingDrops: ratingDrops.length > 0 ? ratingDrops : undefined,
+              anomalies: anomalies.length > 0 ? anomalies : undefined,
+              aspects: analyzeReviews(allReviews),
               isOpenNow: place.openNow,
+              openUntil: formatOpenUntil(
+                getOpenStatus(parseGooglePeriods(place.openingHours), plannedDate, zone),
+                zone
+              ),
               distanceKm: Math.round(distanceKm * 10) / 10,
-              travelTimeMin: driveTimeMin,
-              walkTimeMin,
-              driveTimeMin,
+              travelTimeMin: chosen.minutes,
+              travelMode: chosen.mode,
+              // Per-mode times are from the searcher; with several people they'd mean nobody's trip
+              ...(personTravelTimes ? { personTravelTimes } : { walkTimeMin, bikeTimeMin, driveTimeMin, transitTimeMin }),
               googleMapsUrl,
               cuisine,
+              cuisineIds,
               photoUrl,
               types: place.types,
             };
 
-            const exceptional = isExceptionalRestaurant(restaurant);
+            if (dietaryNeeds.length > 0) {
+              restaurant.dietaryMatch = assessDietaryMatch(restaurant, dietaryNeeds, Boolean(dietaryTerms));
+            }
+
+            const exceptional = isExceptionalRestaurant(
+              restaurant,
+              ranking.exceptionalThreshold,
+              ranking.exceptionalReviewMin
+            );
             restaurant.isExceptional = exceptional;
-            restaurant.valueScore = calculateValueScore(
-              aggregatedScore,
-              driveTimeMin,
+            const value = explainValueScore(
+              ratingForMode(aggregatedScore, ratingInterval, ranking.mode),
+              chosen.minutes,
               maxTravelTimeMin,
-              exceptional
+              exceptional,
+              ranking.valueCurve,
+              place.priceLevel
             );
+            restaurant.valueScore = value.score;
+            restaurant.explanation = { aggregate, confidence, value, rankingMode: ranking.mode };
+            restaurant.isFavorite = favorites.includes(place.placeId);
+            if (personalization || restaurant.isFavorite) {
+              const learned = personalization ? personalAdjustment(restaurant, personalization) : 0;
+              restaurant.personalAdjustment = learned + (restaurant.isFavorite ? favoriteBoost : 0);
+            }
 
             return restaurant;
           })
         );
 
-        // Filter by open status at planned time and sort by value score
-        const results = restaurants
+        // Filter by open status over the planned window and sort by value score
+        const ranked = restaurants
           .filter(r => {
-            if (isNow) {
-              // For "now", ONLY show places confirmed open (strict: must be true, not undefined)
-              return r.isOpenNow === true;
-            } else {
-              // For future times, check opening hours
-              const place = topPlaces.find(p => p.placeId === r.id);
-              return isOpenAtTime(place?.openingHours, plannedDate);
-            }
+            // For "now", ONLY show places confirmed open (strict: must be true, not undefined)
+            if (isNow && r.isOpenNow !== true) return false;
+            // Must stay open from the earliest arrival until the meal is over
+            const place = topPlaces.find(p => p.placeId === r.id);
+            return isOpenDuring(
+              place?.openingHours,
+              plannedWindow.start,
+              plannedWindow.end,
+              diningDurationMin,
+              zone
+            );
+          })
+          .filter(r => {
+            if (!r.personTravelTimes) return (r.travelTimeMin || 0) <= maxTravelTimeMin || r.isExceptional;
+            // Everyone must be within the limit; exceptional places may stretch it, except under 'within'
+            const minutes = r.personTravelTimes.map(t => t.minutes);
+            return everyoneWithin(minutes, maxTravelTimeMin) || (fairnessObjective !== 'within' && r.isExceptional);
           })
-          .filter(r => (r.travelTimeMin || 0) <= maxTravelTimeMin || r.isExceptional)
-          .sort((a, b) => (b.valueScore || 0) - (a.valueScore || 0))
+          // Drop anything priced outside the range; unpriced places are kept
+          .filter(r => {
+            const level = r.priceLevel?.length;
+            return !level || (level >= (minPrice ?? 1) && level <= (maxPrice ?? 4));
+          })
+          // Drop places whose category data doesn't back up the dietary needs
+          .filter(meetsDietaryNeeds)
+          .filter(r => passesCuisineFilter(r, { include: includeCuisines, exclude: excludeCuisines }, Boolean(cuisineTerm)))
+          // What the review text says ("quiet", "fast service")
+          .filter(r => meetsAspects(r, requiredAspects))
+          .sort((a, b) =>
+            (sortByAspect ? aspectSortScore(b, sortByAspect) - aspectSortScore(a, sortByAspect) : 0) ||
+            rankingScore(b) - rankingScore(a)
+          );
+
+        // "Surprise me" reorders for variety rather than pure value
+        const top = (surpriseMe ? surpriseOrder(ranked, recentCuisines) : ranked)
           .slice(0, 10); // Return top 10 only
 
+        // Trends and what reviewers say, for just the places we're showing
+        const results = samplesForRanking
+          ? top
+          : await Promise.all(
+              top.map(async restaurant => {
+                const reviews = await withRecentReviews(restaurant.reviews, restaurant.id);
+                return {
+                  ...restaurant,
+                  reviews,
+                  trend: detectTrend(reviews, config.recentWindowDays),
+                  aspects: analyzeReviews(reviews),
+                };
+              })
+            );
+
         return NextResponse.json({
           restaurants: results,
           totalFound: allPlaces.length,
           filteredCount: results.length,
+          plannedWindow: {
+            start: plannedWindow.start.toISOString(),
+            end: plannedWindow.end.toISOString(),
+          },
+          diningDurationMin,
+          travelMode,
+          fairness: people ? fairnessObjective : undefined,
+          searchCenter: area?.center,
+          timeZone: zone,
+          price: { min: minPrice, max: maxPrice },
+          dietary: dietaryNeeds,
+          cuisines: { include: includeCuisines, exclude: excludeCuisines },
+          surpriseMe,
+          aspects: requiredAspects,
+          sortByAspect,
         });
 
       } catch (placesError) {
@@ -217,14 +502,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Specific restaurant search - scrape all platforms
-    const { results, errors } = await scrapeAllPlatforms(
+    const scrapePlatforms = selectedPlatforms ?? getScraperPlatforms();
+    const { results: scraped, errors } = await scrapeAllPlatforms(
       query,
       location,
-      selectedPlatforms
+      scrapePlatforms
     );
+    const results = config.calibrate === false ? scraped : calibrateReviews(scraped);
 
-    const aggregatedScore = calculateAggregatedScore(results, config);
-    const confidence = calculateConfidence(results);
+    const anomalies = detectAnomalies(results);
+    const aggregate = explainAggregatedScore(results, config, anomalies);
+    const confidence = explainConfidence(results);
+    const aggregatedScore = aggregate.score;
+    const ratingInterval = calculateCredibleInterval(results);
 
     const restaurant: Restaurant = {
       id: `${query}-${location}-${Date.now()}`.replace(/\s+/g, '-').toLowerCase(),
@@ -232,29 +522,45 @@ export async function POST(request: NextRequest) {
       address: location,
       reviews: results,
       aggregatedScore,
-      confidence,
+      confidence: confidence.score,
+      ratingInterval,
+      trend: detectTrend(results, config.recentWindowDays),
+      anomalies: anomalies.length > 0 ? anomalies : undefined,
+      aspects: analyzeReviews(results),
+      explanation: { aggregate, confidence },
     };
 
+    if (dietaryNeeds.length > 0) {
+      restaurant.dietaryMatch = assessDietaryMatch(restaurant, dietaryNeeds);
+    }
+
     // Add distance/time if user location provided
     if (userLat && userLon && restaurant.latitude && restaurant.longitude) {
       const distanceKm = calculateDistance(userLat, userLon, restaurant.latitude, restaurant.longitude);
       restaurant.distanceKm = Math.round(distanceKm * 10) / 10;
       restaurant.travelTimeMin = estimateTravelTime(distanceKm);
       
-      const exceptional = isExceptionalRestaurant(restaurant);
+      const exceptional = isExceptionalRestaurant(
+        restaurant,
+        ranking.exceptionalThreshold,
+        ranking.exceptionalReviewMin
+      );
       restaurant.isExceptional = exceptional;
-      restaurant.valueScore = calculateValueScore(
-        aggregatedScore,
+      const value = explainValueScore(
+        ratingForMode(aggregatedScore, ratingInterval, ranking.mode),
         restaurant.travelTimeMin,
         maxTravelTimeMin,
-        exceptional
+        exceptional,
+        ranking.valueCurve
       );
+      restaurant.valueScore = value.score;
+      restaurant.explanation = { aggregate, confidence, value, rankingMode: ranking.mode };
     }
 
     return NextResponse.json({
       restaurant,
       errors: Object.keys(errors).length > 0 ? errors : undefined,
-      platformsSearched: selectedPlatforms,
+      platformsSearched: scrapePlatforms,
       platformsFound: results.map((r) => r.platform),
     });
   } catch (error) {
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { Users, Loader2, MapPin, Check, X, Link as LinkIcon, Star } from 'lucide-react';
+import { DietaryNeed, GroupVote, PublicGroupSession, TravelModePreference } from '@/types';
+import { getCurrentPosition } from '@/lib/geolocation';
+import { TRAVEL_MODES, TRAVEL_MODE_DISPLAY } from '@/lib/routing/base';
+import { DIETARY_NEEDS, DIETARY_SIGNALS } from '@/lib/dietary';
+
+const POLL_INTERVAL_MS = 5000; // Pick up other members' joins and votes
+
+function memberKey(sessionId: string): string {
+  return `group:${sessionId}:member`;
+}
+
+function tokenKey(sessionId: string): string {
+  return `group:${sessionId}:token`;
+}
+
+export default function GroupPage() {
+  const { id } = useParams<{ id: string }>();
+  const [session, setSession] = useState<PublicGroupSession | null>(null);
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [memberToken, setMemberToken] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [travelMode, setTravelMode] = useState<TravelModePreference>('drive');
+  const [maxTravelTime, setMaxTravelTime] = useState(20);
+  const [dietary, setDietary] = useState<DietaryNeed[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadSession = useCallback(async () => {
+    const response = await fetch(`/api/groups/${id}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Could not load session');
+      return;
+    }
+    setSession(data.session);
+  }, [id]);
+
+  useEffect(() => {
+    setMemberId(localStorage.getItem(memberKey(id)));
+    setMemberToken(localStorage.getItem(tokenKey(id)));
+    loadSession();
+    const timer = setInterval(loadSession, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [id, loadSession]);
+
+  const handleJoin = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const coords = await getCurrentPosition();
+      const response = await fetch(`/api/groups/${id}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          travelMode,
+          maxTravelTimeMin: maxTravelTime,
+          dietary,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not join');
+      localStorage.setItem(memberKey(id), data.member.id);
+      localStorage.setItem(tokenKey(id), data.member.token);
+      setMemberId(data.member.id);
+      setMemberToken(data.member.token);
+      setSession(data.session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not join');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFindPlaces = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/groups/${id}/candidates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberToken }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Search failed');
+      setSession(data.session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVote = async (restaurantId: string, vote: GroupVote) => {
+    const response = await fetch(`/api/groups/${id}/votes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ memberToken, restaurantId, vote }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Vote failed');
+      return;
+    }
+    setSession(data.session);
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const isMember = !!memberId && !!memberToken && !!session?.members.some(m => m.id === memberId);
+  const winner = session?.candidates.find(c => c.restaurant.id === session.winnerId);
+  // The next card this member hasn't voted on yet
+  const nextCandidate = session?.candidates.find(c => !session.votes[c.restaurant.id]?.[memberId ?? '']);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-red-50">
+      <div className="max-w-md mx-auto px-4 py-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Users className="w-6 h-6 text-orange-500" />
+          <h1 className="text-xl font-bold text-gray-900">{session?.name || 'Group lunch'}</h1>
+          <button
+            onClick={handleCopyLink}
+            className="ml-auto flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg"
+          >
+            <LinkIcon className="w-4 h-4" />
+            {copied ? 'Copied!' : 'Share link'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">{error}</div>
+        )}
+
+        {/* Members */}
+        {session && (
+          <div className="bg-white rounded-xl p-3 mb-4 border border-gray-200">
+            <p className="text-xs text-gray-500 mb-2">{session.members.length} joined</p>
+            <div className="flex flex-wrap gap-2">
+              {session.members.map(m => (
+                <span key={m.id} className="px-2.5 py-1 bg-gray-100 rounded-full text-sm">
+                  {m.travelMode !== 'best' && TRAVEL_MODE_DISPLAY[m.travelMode].icon} {m.name}
+                  {m.id === memberId && ' (you)'}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Join form */}
+        {session && !isMember && (
+          <div className="bg-white rounded-xl p-4 mb-4 border border-gray-200 space-y-3 text-sm">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            <div className="flex items-center gap-2">
+              <select
+                value={travelMode}
+                onChange={(e) => setTravelMode(e.target.value as TravelModePreference)}
+                className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+              >
+                {TRAVEL_MODES.map(mode => (
+                  <option key={mode} value={mode}>
+                    {TRAVEL_MODE_DISPLAY[mode].icon} {TRAVEL_MODE_DISPLAY[mode].label}
+                  </option>
+                ))}
+                <option value="best">⚡ Fastest</option>
+              </select>
+              <span>up to {maxTravelTime} min</span>
+              <input
+                type="range"
+                min="5"
+                max="60"
+                step="5"
+                value={maxTravelTime}
+                onChange={(e) => setMaxTravelTime(parseInt(e.target.value, 10))}
+                className="flex-1 accent-orange-500"
+              />
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {DIETARY_NEEDS.map(need => {
+                const selected = dietary.includes(need);
+                return (
+                  <button
+                    key={need}
+                    type="button"
+                    onClick={() => setDietary(selected ? dietary.filter(n => n !== need) : [...dietary, need])}
+                    className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                      selected ? 'bg-green-500 border-green-500 text-white' : 'bg-white border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    {DIETARY_SIGNALS[need].label}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={handleJoin}
+              disabled={isLoading || !name.trim()}
+              className="w-full py-2.5 bg-gradient-to-r from-orange-500 to-red-500 text-white font-semibold rounded-xl disabled:opacity-50"
+            >
+              Join with my location
+            </button>
+          </div>
+        )}
+
+        {isMember && !winner && (
+          <button
+            onClick={handleFindPlaces}
+            disabled={isLoading}
+            className="w-full mb-4 py-2.5 bg-gradient-to-r from-orange-500 to-red-500 text-white font-semibold rounded-xl disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+            {session?.candidates.length ? 'Search again' : 'Find places for everyone'}
+          </button>
+        )}
+
+        {/* Winner */}
+        {winner && (
+          <div className="bg-green-500 text-white rounded-xl p-4 mb-4">
+            <p className="text-xs opacity-80">Everyone said yes 🎉</p>
+            <h2 className="text-lg font-bold">{winner.restaurant.name}</h2>
+            <p className="text-sm opacity-90">{winner.restaurant.address}</p>
+            <a
+              href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(winner.restaurant.address)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-3 inline-flex items-center gap-2 px-4 py-2 bg-white text-green-700 font-semibold rounded-lg"
+            >
+              <MapPin className="w-4 h-4" />
+              Let&apos;s Go!
+            </a>
+          </div>
+        )}
+
+        {/* Voting card */}
+        {isMember && !winner && nextCandidate && session && (
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-bold">{nextCandidate.restaurant.name}</h2>
+                  <p className="text-sm opacity-90">{nextCandidate.restaurant.address}</p>
+                  <p className="text-xs mt-1">Longest trip: {nextCandidate.groupTravelTimeMin} min</p>
+                </div>
+                <div className="text-right">
+                  <div className="text-2xl font-bold flex items-center gap-1">
+                    <Star className="w-5 h-5 fill-white" />
+                    {nextCandidate.restaurant.aggregatedScore.toFixed(1)}
+                  </div>
+                </div>
+              </div>
+            </div>
+            <div className="p-3 text-sm space-y-1">
+              {session.members.map(m => {
+                const vote = session.votes[nextCandidate.restaurant.id]?.[m.id];
+                return (
+                  <div key={m.id} className="flex justify-between">
+                    <span>{m.name}</span>
+                    <span className="text-gray-600">
+                      {nextCandidate.memberTravelTimes[m.id]} min
+                      {vote === 'yes' && ' · 👍'}
+                      {vote === 'no' && ' · 👎'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-2 p-3 pt-0">
+              <button
+                onClick={() => handleVote(nextCandidate.restaurant.id, 'no')}
+                className="flex-1 py-3 bg-gray-200 text-gray-700 font-semibold rounded-xl flex items-center justify-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                No
+              </button>
+              <button
+                onClick={() => handleVote(nextCandidate.restaurant.id, 'yes')}
+                className="flex-1 py-3 bg-green-500 text-white font-semibold rounded-xl flex items-center justify-center gap-2"
+              >
+                <Check className="w-4 h-4" />
+                Yes
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isMember && !winner && session && session.candidates.length > 0 && !nextCandidate && (
+          <p className="text-center text-gray-600 text-sm">
+            You&apos;ve voted on every place. Waiting for the others…
+          </p>
+        )}
+
+        {!session && !error && (
+          <div className="flex justify-center mt-8">
+            <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,50 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Utensils, Navigation, RefreshCw, MapPin, Clock, ChevronLeft, Loader2, ExternalLink, Phone, Globe, Star } from 'lucide-react';
-import { ResultCard, LocationButton } from '@/components';
-import { Restaurant } from '@/types';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Utensils, Navigation, RefreshCw, MapPin, Clock, ChevronLeft, Loader2, ExternalLink, Phone, Globe, Star, Users, Heart } from 'lucide-react';
+import { ResultCard, LocationButton, PreferencePanel, ScoreExplanationPanel } from '@/components';
+import { Restaurant, TravelMode, TravelModePreference, DietaryNeed, RankingMode, Aspect, AspectScore } from '@/types';
 import { Coordinates, getCurrentPosition, reverseGeocode } from '@/lib/geolocation';
+import { isUncertainMatch } from '@/lib/matching';
+import { getPlatformInfo } from '@/lib/platforms';
+import { TRAVEL_MODES, TRAVEL_MODE_DISPLAY } from '@/lib/routing/base';
+import { DIETARY_NEEDS, DIETARY_SIGNALS } from '@/lib/dietary';
+import { CUISINES } from '@/lib/cuisine';
+import { ASPECTS, ASPECT_LABELS, ASPECT_NAMES, ASPECT_MIN_SCORE } from '@/lib/sentiment';
+import {
+  buildPreferenceProfile,
+  loadPlaceLists,
+  loadPreferenceHistory,
+  recentCuisines,
+  recordPreferenceEvent,
+  resetPreferenceHistory,
+  togglePlaceList,
+  PlaceListName,
+  PlaceLists,
+  PreferenceAction,
+  PreferenceEvent,
+} from '@/lib/preferences';
+
+const CUISINE_FAMILIES = Object.values(CUISINES).filter(c => !c.parent);
+
+type CuisineChoice = 'include' | 'exclude';
+
+const RANKING_MODE_LABELS: Record<RankingMode, string> = {
+  expected: 'Best guess',
+  optimistic: 'Explorer (give new places the benefit of the doubt)',
+  pessimistic: 'Safe pick (only trust well-proven ratings)',
+};
+
+function travelTimeFor(restaurant: Restaurant, mode: TravelMode): number | undefined {
+  switch (mode) {
+    case 'walk': return restaurant.walkTimeMin;
+    case 'bike': return restaurant.bikeTimeMin;
+    case 'drive': return restaurant.driveTimeMin;
+    case 'transit': return restaurant.transitTimeMin;
+  }
+}
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
@@ -15,10 +55,26 @@ export default function Home() {
   const [allResults, setAllResults] = useState<Restaurant[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [plannedTime, setPlannedTime] = useState<string>('now'); // 'now' or ISO datetime
+  const [plannedTime, setPlannedTime] = useState<string>('now'); // 'now', a meal preset or 'custom'
+  const [customStart, setCustomStart] = useState<string>(''); // datetime-local value, e.g. "2025-06-14T19:00"
+  const [customEnd, setCustomEnd] = useState<string>(''); // Optional latest arrival, "21:00"
+  const [diningDuration, setDiningDuration] = useState(60); // Minutes the place must stay open after arrival
+  const [travelMode, setTravelMode] = useState<TravelModePreference>('drive');
     const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
   const [locationName, setLocationName] = useState<string | null>(null);
-  const maxTravelTime = 30; // Fixed 30 min max travel time
+  const [maxTravelTime, setMaxTravelTime] = useState(30); // Minutes
+  const [travelAversion, setTravelAversion] = useState(0.5); // 0 = happy to travel, 1 = hates it
+  const [minPrice, setMinPrice] = useState(1); // 1 = $ ... 4 = $$$$
+  const [maxPrice, setMaxPrice] = useState(4);
+  const [budgetSensitivity, setBudgetSensitivity] = useState(0); // 0 = price doesn't matter
+  const [rankingMode, setRankingMode] = useState<RankingMode>('expected');
+  const [dietary, setDietary] = useState<DietaryNeed[]>([]);
+  const [cuisineChoices, setCuisineChoices] = useState<Record<string, CuisineChoice>>({});
+  const [surpriseMe, setSurpriseMe] = useState(false);
+  const [aspects, setAspects] = useState<Aspect[]>([]);
+  const [sortByAspect, setSortByAspect] = useState<Aspect | ''>('');
+  const [history, setHistory] = useState<PreferenceEvent[]>([]);
+  const [placeLists, setPlaceLists] = useState<PlaceLists>({ favorites: {}, blocked: {} });
 
   // Get current restaurant from results
   const currentRestaurant = allResults.length > 0 ? allResults[currentIndex] : null;
@@ -45,6 +101,61 @@ export default function Home() {
     requestLocation();
   }, []);
 
+  const router = useRouter();
+
+  useEffect(() => {
+    setHistory(loadPreferenceHistory());
+    setPlaceLists(loadPlaceLists());
+  }, []);
+
+  // Log what the user did with a suggestion so future rankings can learn from it
+  const logAction = (action: PreferenceAction, restaurant: Restaurant) => {
+    recordPreferenceEvent(action, restaurant);
+    setHistory(loadPreferenceHistory());
+  };
+
+  const handleResetHistory = () => {
+    resetPreferenceHistory();
+    setHistory([]);
+  };
+
+  const handleTogglePlaceList = (list: PlaceListName, place: { id: string; name: string }) => {
+    setPlaceLists(togglePlaceList(list, place));
+  };
+
+  // "Never show me this again": block it and drop it from the current results
+  const handleBlock = (restaurant: Restaurant) => {
+    handleTogglePlaceList('blocked', restaurant);
+    const remaining = allResults.filter(r => r.id !== restaurant.id);
+    setAllResults(remaining);
+    setCurrentIndex(Math.min(currentIndex, Math.max(0, remaining.length - 1)));
+  };
+
+  // Start a shared session and hand over to the group page
+  // The planned time as the API takes it; a custom end is a latest arrival on the start's day
+  const requestedPlannedTime = plannedTime === 'custom'
+    ? { start: customStart, end: customEnd ? `${customStart.slice(0, 10)}T${customEnd}` : undefined }
+    : plannedTime;
+
+  const handleStartGroup = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          plannedTime: requestedPlannedTime,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not start a group');
+      router.push(data.sharePath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start a group');
+    }
+  };
+
   const handleLocationObtained = (coords: Coordinates, name: string) => {
     setUserLocation(coords);
     setLocationName(name);
@@ -56,6 +167,10 @@ export default function Home() {
       setError('Please enable location first');
       return;
     }
+    if (plannedTime === 'custom' && !customStart) {
+      setError('Please pick a date and time');
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -74,7 +189,24 @@ export default function Home() {
           userLat: userLocation.latitude,
           userLon: userLocation.longitude,
           maxTravelTimeMin: maxTravelTime,
-          plannedTime,
+          travelMode,
+          rankingProfile: { travelAversion, budgetSensitivity, mode: rankingMode },
+          price: minPrice > 1 || maxPrice < 4 ? { min: minPrice, max: maxPrice } : undefined,
+          plannedTime: requestedPlannedTime,
+          diningDurationMin: diningDuration,
+          dietary,
+          cuisines: {
+            include: Object.keys(cuisineChoices).filter(id => cuisineChoices[id] === 'include'),
+            exclude: Object.keys(cuisineChoices).filter(id => cuisineChoices[id] === 'exclude'),
+          },
+          surpriseMe,
+          recentCuisines: surpriseMe ? recentCuisines(history) : undefined,
+          aspects,
+          sortByAspect: sortByAspect || undefined,
+          personalization: history.length > 0 ? buildPreferenceProfile(history) : undefined,
+          favorites: Object.keys(placeLists.favorites),
+          blocked: Object.keys(placeLists.blocked),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         }),
       });
 
@@ -120,6 +252,20 @@ export default function Home() {
                 isLoading={locationLoading}
               />
               
+              {/* Travel mode - decides which travel time is scored and filtered */}
+              <select
+                value={travelMode}
+                onChange={(e) => setTravelMode(e.target.value as TravelModePreference)}
+                className="text-sm border border-gray-200 rounded-lg px-3 py-2 text-gray-700 focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                {TRAVEL_MODES.map(mode => (
+                  <option key={mode} value={mode}>
+                    {TRAVEL_MODE_DISPLAY[mode].icon} {TRAVEL_MODE_DISPLAY[mode].label}
+                  </option>
+                ))}
+                <option value="best">⚡ Fastest</option>
+              </select>
+
               {/* Time picker - dynamically show options based on current time */}
               <div className="flex items-center gap-2">
                 <Clock className="w-4 h-4 text-gray-500" />
@@ -141,12 +287,208 @@ export default function Home() {
                     // Always show tomorrow options
                     options.push(<option key="tomorrow_lunch" value="tomorrow_lunch">Tomorrow Lunch</option>);
                     options.push(<option key="tomorrow_dinner" value="tomorrow_dinner">Tomorrow Dinner</option>);
+                    options.push(<option key="custom" value="custom">Pick a date &amp; time…</option>);
                     return options;
                   })()}
                 </select>
               </div>
             </div>
 
+            {/* Custom date/time window */}
+            {plannedTime === 'custom' && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="datetime-local"
+                  value={customStart}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className="border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <span>until</span>
+                <input
+                  type="time"
+                  value={customEnd}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className="border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <select
+                  value={diningDuration}
+                  onChange={(e) => setDiningDuration(parseInt(e.target.value, 10))}
+                  className="border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value={30}>30 min meal</option>
+                  <option value={60}>1 hour meal</option>
+                  <option value={90}>1.5 hour meal</option>
+                  <option value={120}>2 hour meal</option>
+                </select>
+              </div>
+            )}
+
+            {/* Travel tolerance */}
+            <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Max {maxTravelTime} min</span>
+                <input
+                  type="range"
+                  min="5"
+                  max="60"
+                  step="5"
+                  value={maxTravelTime}
+                  onChange={(e) => setMaxTravelTime(parseInt(e.target.value, 10))}
+                  className="flex-1 accent-orange-500"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Hate travel?</span>
+                <span className="text-xs text-gray-500">Meh</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.1"
+                  value={travelAversion}
+                  onChange={(e) => setTravelAversion(parseFloat(e.target.value))}
+                  className="flex-1 accent-orange-500"
+                />
+                <span className="text-xs text-gray-500">A lot</span>
+              </label>
+              <div className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Price</span>
+                <select
+                  value={minPrice}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    setMinPrice(value);
+                    if (value > maxPrice) setMaxPrice(value);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {[1, 2, 3, 4].map(level => <option key={level} value={level}>{'$'.repeat(level)}</option>)}
+                </select>
+                <span className="text-xs text-gray-500">to</span>
+                <select
+                  value={maxPrice}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    setMaxPrice(value);
+                    if (value < minPrice) setMinPrice(value);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {[1, 2, 3, 4].map(level => <option key={level} value={level}>{'$'.repeat(level)}</option>)}
+                </select>
+              </div>
+              <label className="flex items-center gap-2">
+                <span className="whitespace-nowrap">On a budget?</span>
+                <span className="text-xs text-gray-500">No</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.1"
+                  value={budgetSensitivity}
+                  onChange={(e) => setBudgetSensitivity(parseFloat(e.target.value))}
+                  className="flex-1 accent-orange-500"
+                />
+                <span className="text-xs text-gray-500">Very</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Ranking</span>
+                <select
+                  value={rankingMode}
+                  onChange={(e) => setRankingMode(e.target.value as RankingMode)}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {(Object.keys(RANKING_MODE_LABELS) as RankingMode[]).map(mode => (
+                    <option key={mode} value={mode}>{RANKING_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex flex-wrap gap-1.5">
+                {DIETARY_NEEDS.map(need => {
+                  const selected = dietary.includes(need);
+                  return (
+                    <button
+                      key={need}
+                      type="button"
+                      onClick={() => setDietary(selected ? dietary.filter(n => n !== need) : [...dietary, need])}
+                      className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                        selected ? 'bg-green-500 border-green-500 text-white' : 'bg-white border-gray-300 text-gray-600'
+                      }`}
+                    >
+                      {DIETARY_SIGNALS[need].label}
+                    </button>
+                  );
+                })}
+              </div>
+              {/* Cuisine families cycle: any → only these → not these */}
+              <div className="flex flex-wrap gap-1.5">
+                {CUISINE_FAMILIES.map(family => {
+                  const choice = cuisineChoices[family.id];
+                  const cycle = () => {
+                    const next = { ...cuisineChoices };
+                    if (!choice) next[family.id] = 'include';
+                    else if (choice === 'include') next[family.id] = 'exclude';
+                    else delete next[family.id];
+                    setCuisineChoices(next);
+                  };
+                  return (
+                    <button
+                      key={family.id}
+                      type="button"
+                      onClick={cycle}
+                      title={!choice ? 'Any' : choice === 'include' ? 'Only these' : 'Not these'}
+                      className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                        choice === 'include'
+                          ? 'bg-orange-500 border-orange-500 text-white'
+                          : choice === 'exclude'
+                          ? 'bg-red-50 border-red-300 text-red-600 line-through'
+                          : 'bg-white border-gray-300 text-gray-600'
+                      }`}
+                    >
+                      {family.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={surpriseMe}
+                  onChange={(e) => setSurpriseMe(e.target.checked)}
+                  className="accent-orange-500"
+                />
+                <span>🎲 Surprise me with something different</span>
+              </label>
+              {/* What reviewers say, from review text */}
+              <div className="flex flex-wrap items-center gap-1.5">
+                {ASPECTS.map(aspect => {
+                  const selected = aspects.includes(aspect);
+                  return (
+                    <button
+                      key={aspect}
+                      type="button"
+                      onClick={() => setAspects(selected ? aspects.filter(a => a !== aspect) : [...aspects, aspect])}
+                      className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                        selected ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-600'
+                      }`}
+                    >
+                      {ASPECT_LABELS[aspect]}
+                    </button>
+                  );
+                })}
+                <select
+                  value={sortByAspect}
+                  onChange={(e) => setSortByAspect(e.target.value as Aspect | '')}
+                  className="ml-auto px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs"
+                >
+                  <option value="">Sort by value</option>
+                  {ASPECTS.map(aspect => (
+                    <option key={aspect} value={aspect}>Sort by {ASPECT_NAMES[aspect].toLowerCase()}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             {/* Find nearby button */}
             {userLocation && (
               <button
@@ -155,9 +497,30 @@ export default function Home() {
                 className="w-full mt-3 py-2.5 bg-gradient-to-r from-orange-500 to-red-500 text-white font-semibold rounded-xl hover:from-orange-600 hover:to-red-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
               >
                 <Navigation className="w-4 h-4" />
-                {plannedTime === 'now' ? 'Find Restaurant' : `Find for ${plannedTime.replace('_', ' ').split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}`}
+                {plannedTime === 'now'
+                  ? 'Find Restaurant'
+                  : plannedTime === 'custom'
+                  ? `Find for ${customStart ? new Date(customStart).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' }) : '…'}${customEnd ? `–${customEnd}` : ''}`
+                  : `Find for ${plannedTime.replace('_', ' ').split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}`}
               </button>
             )}
+            <button
+              onClick={handleStartGroup}
+              disabled={plannedTime === 'custom' && !customStart}
+              className="w-full mt-2 py-2 bg-white border border-gray-300 text-gray-700 font-medium rounded-xl hover:bg-gray-50 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+            >
+              <Users className="w-4 h-4" />
+              Decide as a group
+            </button>
+          </div>
+
+          <div className="mt-3">
+            <PreferencePanel
+              history={history}
+              onReset={handleResetHistory}
+              lists={placeLists}
+              onRemoveFromList={handleTogglePlaceList}
+            />
           </div>
 
 
@@ -202,18 +565,83 @@ export default function Home() {
                       {currentRestaurant.priceLevel && (
                         <span className="text-xs font-medium">{currentRestaurant.priceLevel}</span>
                       )}
+                      {currentRestaurant.trend && (
+                        <span
+                          className="text-xs bg-white/20 px-2 py-0.5 rounded-full"
+                          title={`Recent reviews ${currentRestaurant.trend.recentRating.toFixed(1)} vs ${currentRestaurant.trend.lifetimeRating.toFixed(1)} overall`}
+                        >
+                          {currentRestaurant.trend.direction === 'up' ? '📈 Trending up' : '📉 Trending down'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-lg font-bold">{currentRestaurant.name}</h2>
+                      <button
+                        onClick={() => handleTogglePlaceList('favorites', currentRestaurant)}
+                        title={placeLists.favorites[currentRestaurant.id] ? 'Remove from favorites' : 'Add to favorites'}
+                      >
+                        <Heart className={`w-4 h-4 ${placeLists.favorites[currentRestaurant.id] ? 'fill-white' : 'opacity-70'}`} />
+                      </button>
                     </div>
-                    <h2 className="text-lg font-bold">{currentRestaurant.name}</h2>
                     <p className="text-sm opacity-90">{currentRestaurant.address}</p>
                     <div className="flex flex-wrap gap-3 mt-1 text-xs">
-                      {currentRestaurant.walkTimeMin && <span>🚶 {currentRestaurant.walkTimeMin} min</span>}
-                      {currentRestaurant.driveTimeMin && <span>🚗 {currentRestaurant.driveTimeMin} min</span>}
+                      {TRAVEL_MODES.map(mode => {
+                        const minutes = travelTimeFor(currentRestaurant, mode);
+                        if (!minutes) return null;
+                        // Highlight the mode the ranking used
+                        const isChosen = currentRestaurant.travelMode === mode;
+                        return (
+                          <span key={mode} className={isChosen ? 'font-bold bg-white/20 px-1.5 rounded' : 'opacity-80'}>
+                            {TRAVEL_MODE_DISPLAY[mode].icon} {minutes} min
+                          </span>
+                        );
+                      })}
+                      {currentRestaurant.personTravelTimes?.map(person => (
+                        <span key={person.label}>
+                          {person.label}: {TRAVEL_MODE_DISPLAY[person.mode].icon} {person.minutes} min
+                        </span>
+                      ))}
                       {currentRestaurant.distanceKm && <span>📍 {currentRestaurant.distanceKm} km</span>}
                       {currentRestaurant.isOpenNow && <span className="text-green-200">✓ Open now</span>}
                     </div>
+                    {currentRestaurant.aspects && (
+                      <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                        {(Object.entries(currentRestaurant.aspects) as [Aspect, AspectScore][])
+                          .filter(([, { score }]) => Math.abs(score) >= ASPECT_MIN_SCORE)
+                          .map(([aspect, { score }]) => (
+                            <span key={aspect} className="bg-white/20 px-1.5 rounded">
+                              {score > 0 ? '👍' : '👎'} {ASPECT_NAMES[aspect]}
+                            </span>
+                          ))}
+                      </div>
+                    )}
+                    {currentRestaurant.anomalies?.map(anomaly => (
+                      <p key={`${anomaly.platform}-${anomaly.kind}`} className="text-xs mt-1 text-amber-100">
+                        ⚠️ {anomaly.reason}
+                      </p>
+                    ))}
+                    {currentRestaurant.ratingDrops?.map(drop => (
+                      <p key={drop.platform} className="text-xs mt-1 text-red-100">
+                        ⚠️ {getPlatformInfo(drop.platform).label} rating fell {drop.from.toFixed(1)} → {drop.to.toFixed(1)} recently
+                      </p>
+                    ))}
+                    {currentRestaurant.dietaryMatch && (
+                      <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                        {(Object.entries(currentRestaurant.dietaryMatch) as [DietaryNeed, number][]).map(([need, confidence]) => (
+                          <span key={need} className="bg-white/20 px-1.5 rounded">
+                            🥗 {DIETARY_SIGNALS[need].label} {Math.round(confidence * 100)}%
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="text-right ml-2">
                     <div className="text-2xl font-bold">{currentRestaurant.aggregatedScore.toFixed(1)}</div>
+                    {currentRestaurant.ratingInterval && (
+                      <div className="text-xs opacity-80" title={`${Math.round(currentRestaurant.ratingInterval.level * 100)}% credible interval`}>
+                        {currentRestaurant.ratingInterval.lower.toFixed(1)}–{currentRestaurant.ratingInterval.upper.toFixed(1)}
+                      </div>
+                    )}
                     <div className="text-xs opacity-80">{currentRestaurant.reviews.length} sources</div>
                   </div>
                 </div>
@@ -225,16 +653,49 @@ export default function Home() {
                 <div className="flex flex-wrap gap-2">
                   {currentRestaurant.reviews.map((review) => (
                     <div key={review.platform} className="flex items-center gap-1.5 bg-gray-100 px-3 py-1.5 rounded-lg text-sm">
-                      <span className="capitalize font-semibold text-gray-800">{review.platform}</span>
+                      <span className="font-semibold text-gray-800">{getPlatformInfo(review.platform).label}</span>
                       <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />
                       <span className="font-bold text-gray-900">{review.rating.toFixed(1)}</span>
+                      {review.rawRating !== undefined && review.rawRating !== review.rating && (
+                        <span className="text-gray-500 text-xs" title="As published, before calibration">raw {review.rawRating.toFixed(1)}</span>
+                      )}
                       <span className="text-gray-600 text-xs">({review.reviewCount.toLocaleString()})</span>
+                      {isUncertainMatch(review) && (
+                        <span className="text-amber-600 text-xs font-semibold" title="This may be a different restaurant">?</span>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
 
-              
+              <div className="mb-2">
+                <ScoreExplanationPanel restaurant={currentRestaurant} />
+              </div>
+
+              <div className="flex justify-end gap-4 mb-2">
+                {/* Only Google places have a detail page */}
+                {currentRestaurant.googleMapsUrl && (
+                  <Link
+                    href={`/restaurant/${encodeURIComponent(currentRestaurant.id)}`}
+                    className="text-xs text-gray-500 hover:text-gray-700 mr-auto"
+                  >
+                    ℹ️ Hours, photos &amp; more
+                  </Link>
+                )}
+                <button
+                  onClick={() => handleBlock(currentRestaurant)}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                >
+                  🚫 Never show me this again
+                </button>
+                <button
+                  onClick={() => logAction('visit', currentRestaurant)}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  ✓ I ate here
+                </button>
+              </div>
+
               {/* Action buttons */}
               <div className="flex gap-2">
                 {currentIndex > 0 && (
@@ -249,6 +710,7 @@ export default function Home() {
                   href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(currentRestaurant.address)}`}
                   target="_blank"
                   rel="noopener noreferrer"
+                  onClick={() => logAction('accept', currentRestaurant)}
                   className="flex-1 py-3 bg-green-500 text-white font-semibold rounded-xl flex items-center justify-center gap-2"
                 >
                   <MapPin className="w-4 h-4" />
@@ -256,7 +718,10 @@ export default function Home() {
                 </a>
                 {hasMoreOptions ? (
                   <button
-                    onClick={() => setCurrentIndex(currentIndex + 1)}
+                    onClick={() => {
+                      logAction('skip', currentRestaurant);
+                      setCurrentIndex(currentIndex + 1);
+                    }}
                     className="flex-1 py-3 bg-gray-200 text-gray-700 font-semibold rounded-xl flex items-center justify-center gap-2"
                   >
                     <RefreshCw className="w-4 h-4" />
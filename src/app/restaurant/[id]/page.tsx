@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Clock, ExternalLink, Globe, Loader2, MapPin, Phone } from 'lucide-react';
+import { Restaurant } from '@/types';
+import { ResultCard } from '@/components';
+import { getPlatformInfo } from '@/lib/platforms';
+import { loadPlaceLists, togglePlaceList, PlaceLists } from '@/lib/preferences';
+
+export default function RestaurantPage() {
+  const { id } = useParams<{ id: string }>();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Only read once the card renders, after the client-side fetch, so SSR's empty lists never show
+  const [placeLists, setPlaceLists] = useState<PlaceLists>(loadPlaceLists);
+  const router = useRouter();
+  // Google's hours lines start with the weekday name
+  const [today] = useState(() => new Date().toLocaleDateString('en-US', { weekday: 'long' }));
+
+  // "Never show me this again": block it and go back to search, where it won't appear
+  const handleBlock = (restaurant: Restaurant) => {
+    if (!placeLists.blocked[restaurant.id]) togglePlaceList('blocked', restaurant);
+    router.push('/');
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/restaurants/${encodeURIComponent(id)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          setError(data.error || 'Could not load restaurant');
+          return;
+        }
+        setRestaurant(data.restaurant);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load restaurant');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const platformLinks = restaurant?.reviews.filter(r => r.url) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-red-50">
+      <div className="max-w-2xl mx-auto px-4 py-6">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" />
+          Back to search
+        </Link>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">{error}</div>
+        )}
+
+        {!restaurant && !error && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+          </div>
+        )}
+
+        {restaurant && (
+          <>
+            {/* Photos */}
+            {restaurant.photoUrls && (
+              <div className="flex gap-2 mt-4 overflow-x-auto snap-x rounded-xl">
+                {restaurant.photoUrls.map((url, i) => (
+                  <img
+                    key={url}
+                    src={url}
+                    alt={`${restaurant.name} photo ${i + 1}`}
+                    className="h-48 w-auto flex-none rounded-xl object-cover snap-start"
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Hours and contact */}
+            <div className="mt-4 bg-white rounded-2xl shadow-lg border border-gray-100 p-6 grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <div>
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                  <Clock className="w-4 h-4" />
+                  Hours
+                </h3>
+                {restaurant.hours ? (
+                  <ul className="text-sm text-gray-600 space-y-0.5">
+                    {restaurant.hours.map(line => (
+                      <li key={line} className={line.startsWith(today) ? 'font-semibold text-gray-900' : ''}>
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No hours listed</p>
+                )}
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Contact</h3>
+                {restaurant.phoneNumber && (
+                  <a
+                    href={`tel:${restaurant.phoneNumber.replace(/[^\d+]/g, '')}`}
+                    className="flex items-center gap-2 text-gray-700 hover:text-orange-600"
+                  >
+                    <Phone className="w-4 h-4" />
+                    {restaurant.phoneNumber}
+                  </a>
+                )}
+                {restaurant.website && (
+                  <a
+                    href={restaurant.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-gray-700 hover:text-orange-600"
+                  >
+                    <Globe className="w-4 h-4" />
+                    <span className="truncate">{restaurant.website.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '')}</span>
+                  </a>
+                )}
+                <a
+                  href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(restaurant.address)}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-gray-700 hover:text-orange-600"
+                >
+                  <MapPin className="w-4 h-4" />
+                  Directions
+                </a>
+
+                {/* Per-platform pages */}
+                {platformLinks.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {platformLinks.map(review => {
+                      const info = getPlatformInfo(review.platform);
+                      return (
+                        <a
+                          key={review.platform}
+                          href={review.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs font-medium ${info.colorClass} ${info.borderClass}`}
+                        >
+                          {info.icon} {info.label}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Scores, history, what reviewers say and the platform breakdown */}
+            <ResultCard
+              restaurant={restaurant}
+              isFavorite={!!placeLists.favorites[restaurant.id]}
+              onToggleFavorite={() => setPlaceLists(togglePlaceList('favorites', restaurant))}
+              onBlock={() => handleBlock(restaurant)}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Heart, RotateCcw, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { buildPreferenceProfile, PreferenceEvent, PlaceListName, PlaceLists, DEFAULT_COOLDOWN_DAYS } from '@/lib/preferences';
+import { cuisineLabel } from '@/lib/cuisine';
+
+interface PreferencePanelProps {
+  history: PreferenceEvent[];
+  onReset: () => void;
+  lists: PlaceLists;
+  onRemoveFromList: (list: PlaceListName, place: { id: string; name: string }) => void;
+}
+
+const LIST_TITLES: Record<PlaceListName, string> = {
+  favorites: 'Favorites',
+  blocked: 'Never shown',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function PreferencePanel({ history, onReset, lists, onRemoveFromList }: PreferencePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now] = useState(() => Date.now());
+
+  const profile = buildPreferenceProfile(history);
+  const cuisines = Object.entries(profile.cuisineAffinity).sort(([, a], [, b]) => b - a);
+  const names = Object.fromEntries(history.map(e => [e.restaurantId, e.restaurantName]));
+  const cooldownStart = now - DEFAULT_COOLDOWN_DAYS * DAY_MS;
+  const recentVisits = Object.entries(profile.lastVisited)
+    .filter(([, at]) => new Date(at).getTime() > cooldownStart)
+    .sort(([, a], [, b]) => b.localeCompare(a));
+
+  const counts = {
+    accept: history.filter(e => e.action === 'accept').length,
+    skip: history.filter(e => e.action === 'skip').length,
+    visit: history.filter(e => e.action === 'visit').length,
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-700"
+      >
+        <Heart className="w-4 h-4 text-orange-500" />
+        <span className="font-medium">Your taste</span>
+        <span className="text-xs text-gray-500">
+          {history.length === 0 ? 'nothing learned yet' : `${counts.accept} picks · ${counts.skip} skips · ${counts.visit} visits`}
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          {cuisines.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Cuisines</p>
+              <div className="flex flex-wrap gap-1.5">
+                {cuisines.map(([id, affinity]) => (
+                  <span
+                    key={id}
+                    className={`px-2 py-0.5 rounded-full text-xs ${
+                      affinity > 0 ? 'bg-green-50 text-green-700' : affinity < 0 ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {cuisineLabel(id)} {affinity > 0 ? '+' : ''}{Math.round(affinity * 100)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {recentVisits.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Shown less for a few days</p>
+              <ul className="text-xs text-gray-700 space-y-0.5">
+                {recentVisits.map(([id, at]) => (
+                  <li key={id}>
+                    {names[id] ?? id} · {new Date(at).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {(Object.keys(LIST_TITLES) as PlaceListName[]).map(list => {
+            const places = Object.entries(lists[list]);
+            if (places.length === 0) return null;
+            return (
+              <div key={list}>
+                <p className="text-xs text-gray-500 mb-1">{LIST_TITLES[list]}</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {places.map(([id, name]) => (
+                    <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded-full text-xs text-gray-700">
+                      {name}
+                      <button
+                        onClick={() => onRemoveFromList(list, { id, name })}
+                        title={`Remove from ${LIST_TITLES[list].toLowerCase()}`}
+                        className="text-gray-400 hover:text-gray-700"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {history.length > 0 && (
+            <button
+              onClick={onReset}
+              className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Forget my history
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { RatingDrop, RatingSnapshot } from '@/types';
+import { getPlatformInfo } from '@/lib/platforms';
+
+interface RatingSparklineProps {
+  placeId: string;
+  days?: number;
+}
+
+const WIDTH = 120;
+const HEIGHT = 28;
+
+function Sparkline({ points }: { points: RatingSnapshot[] }) {
+  const times = points.map(p => new Date(p.at).getTime());
+  const ratings = points.map(p => p.rating);
+  const [minT, maxT] = [Math.min(...times), Math.max(...times)];
+  // At least half a star of vertical range so tiny wobbles don't look dramatic
+  const mid = (Math.min(...ratings) + Math.max(...ratings)) / 2;
+  const range = Math.max(0.5, Math.max(...ratings) - Math.min(...ratings));
+  const [minR, maxR] = [mid - range / 2, mid + range / 2];
+
+  const path = points
+    .map((p, i) => {
+      const x = maxT === minT ? WIDTH : ((times[i] - minT) / (maxT - minT)) * WIDTH;
+      const y = HEIGHT - ((p.rating - minR) / (maxR - minR)) * HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} viewBox={`-2 -2 ${WIDTH + 4} ${HEIGHT + 4}`} className="overflow-visible">
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+}
+
+/**
+ * Per-platform rating history over the last few months, from the snapshot API
+ */
+export function RatingSparkline({ placeId, days = 90 }: RatingSparklineProps) {
+  const [snapshots, setSnapshots] = useState<RatingSnapshot[]>([]);
+  const [drops, setDrops] = useState<RatingDrop[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/restaurants/${encodeURIComponent(placeId)}/history?days=${days}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (cancelled || !data) return;
+        setSnapshots(data.snapshots);
+        setDrops(data.drops);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [placeId, days]);
+
+  const series = new Map<string, RatingSnapshot[]>();
+  for (const snapshot of snapshots) {
+    series.set(snapshot.platform, [...(series.get(snapshot.platform) ?? []), snapshot]);
+  }
+  const lines = [...series].filter(([, points]) => points.length >= 2);
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {lines.map(([platform, points]) => {
+        const latest = points[points.length - 1];
+        return (
+          <div key={platform} className="flex items-center gap-3 text-xs text-gray-600">
+            <span className="w-20 truncate">{getPlatformInfo(platform).label}</span>
+            <span className="text-orange-500">
+              <Sparkline points={points} />
+            </span>
+            <span className="font-semibold text-gray-800">{latest.rating.toFixed(1)}</span>
+            <span className="text-gray-500">({latest.reviewCount.toLocaleString()})</span>
+          </div>
+        );
+      })}
+      {drops.map(drop => (
+        <div key={drop.platform} className="flex items-center gap-1 text-xs text-red-600">
+          <TrendingDown className="w-3 h-3" />
+          {getPlatformInfo(drop.platform).label} fell from {drop.from.toFixed(1)} to {drop.to.toFixed(1)} since{' '}
+          {new Date(drop.since).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,19 +2,13 @@
 
 import { Restaurant } from '@/types';
 import { Star, Clock, MapPin, TrendingUp, Award } from 'lucide-react';
+import { getPlatformInfo } from '@/lib/platforms';
 
 interface RestaurantListProps {
   restaurants: Restaurant[];
   onSelect?: (restaurant: Restaurant) => void;
 }
 
-const PLATFORM_COLORS: Record<string, string> = {
-  google: 'bg-blue-100 text-blue-700',
-  yelp: 'bg-red-100 text-red-700',
-  tripadvisor: 'bg-green-100 text-green-700',
-  foursquare: 'bg-purple-100 text-purple-700',
-};
-
 function RestaurantCard({ restaurant, rank, onSelect }: { restaurant: Restaurant; rank: number; onSelect?: (r: Restaurant) => void }) {
   const isTopPick = rank === 1;
   
@@ -100,9 +94,9 @@ function RestaurantCard({ restaurant, rank, onSelect }: { restaurant: Restaurant
           {restaurant.reviews.map((review) => (
             <div
               key={review.platform}
-              className={`px-2 py-0.5 rounded text-xs font-medium ${PLATFORM_COLORS[review.platform] || 'bg-gray-100 text-gray-700'}`}
+              className={`px-2 py-0.5 rounded text-xs font-medium ${getPlatformInfo(review.platform).colorClass}`}
             >
-              {review.platform}: {review.rating}
+              {getPlatformInfo(review.platform).label}: {review.rating}
             </div>
           ))}
         </div>
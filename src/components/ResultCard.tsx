@@ -1,29 +1,23 @@
 'use client';
 
-import { Restaurant, PlatformReview } from '@/types';
-import { Star, ExternalLink, TrendingUp, AlertCircle, Clock, MapPin, Award } from 'lucide-react';
+import { Restaurant, PlatformReview, DietaryNeed, Aspect, AspectScore } from '@/types';
+import { Star, ExternalLink, TrendingUp, TrendingDown, AlertCircle, Clock, MapPin, Award, Heart, Ban } from 'lucide-react';
+import { isUncertainMatch } from '@/lib/matching';
+import { getPlatformInfo } from '@/lib/platforms';
+import { TRAVEL_MODE_DISPLAY } from '@/lib/routing/base';
+import { DIETARY_SIGNALS } from '@/lib/dietary';
+import { ASPECT_NAMES } from '@/lib/sentiment';
+import { ScoreExplanationPanel } from './ScoreExplanationPanel';
+import { RatingSparkline } from './RatingSparkline';
 
 interface ResultCardProps {
   restaurant: Restaurant;
   errors?: Record<string, string>;
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
+  onBlock?: () => void;
 }
 
-const PLATFORM_COLORS: Record<string, string> = {
-  google: 'bg-blue-100 text-blue-700 border-blue-200',
-  yelp: 'bg-red-100 text-red-700 border-red-200',
-  tripadvisor: 'bg-green-100 text-green-700 border-green-200',
-  foursquare: 'bg-purple-100 text-purple-700 border-purple-200',
-  zomato: 'bg-rose-100 text-rose-700 border-rose-200',
-};
-
-const PLATFORM_ICONS: Record<string, string> = {
-  google: '🔍',
-  yelp: '📍',
-  tripadvisor: '🦉',
-  foursquare: '📌',
-  zomato: '🍽️',
-};
-
 function StarRating({ rating }: { rating: number }) {
   const fullStars = Math.floor(rating);
   const hasHalfStar = rating % 1 >= 0.5;
@@ -50,15 +44,14 @@ function StarRating({ rating }: { rating: number }) {
 }
 
 function PlatformBadge({ review }: { review: PlatformReview }) {
-  const colorClass = PLATFORM_COLORS[review.platform] || 'bg-gray-100 text-gray-700 border-gray-200';
-  const icon = PLATFORM_ICONS[review.platform] || '⭐';
+  const info = getPlatformInfo(review.platform);
 
   return (
-    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${colorClass}`}>
-      <span className="text-lg">{icon}</span>
+    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${info.colorClass} ${info.borderClass}`}>
+      <span className="text-lg">{info.icon}</span>
       <div className="flex-1">
         <div className="flex items-center justify-between">
-          <span className="font-medium capitalize text-sm">{review.platform}</span>
+          <span className="font-medium text-sm">{info.label}</span>
           {review.url && (
             <a
               href={review.url}
@@ -73,13 +66,44 @@ function PlatformBadge({ review }: { review: PlatformReview }) {
         <div className="flex items-center gap-2 mt-1">
           <StarRating rating={review.rating} />
           <span className="text-xs font-semibold">{review.rating.toFixed(1)}</span>
+          {review.rawRating !== undefined && review.rawRating !== review.rating && (
+            <span className="text-xs opacity-70" title="As published on the platform, before calibration">
+              (raw {review.rawRating.toFixed(1)})
+            </span>
+          )}
           <span className="text-xs opacity-70">({review.reviewCount.toLocaleString()} reviews)</span>
         </div>
+        {isUncertainMatch(review) && (
+          <div className="flex items-center gap-1 mt-1 text-xs opacity-80">
+            <AlertCircle className="w-3 h-3" />
+            <span>Possible mismatch ({Math.round(review.matchConfidence! * 100)}% match)</span>
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
+function AspectBars({ aspects }: { aspects: Partial<Record<Aspect, AspectScore>> }) {
+  return (
+    <div className="space-y-1.5">
+      {(Object.entries(aspects) as [Aspect, AspectScore][]).map(([aspect, { score, mentions }]) => (
+        <div key={aspect} className="flex items-center gap-3 text-xs">
+          <span className="w-20 text-gray-600">{ASPECT_NAMES[aspect]}</span>
+          {/* -1..1 drawn out from the middle */}
+          <div className="flex-1 h-2 bg-gray-100 rounded-full relative overflow-hidden">
+            <div
+              className={`absolute top-0 h-full ${score >= 0 ? 'bg-green-500 left-1/2' : 'bg-red-400 right-1/2'}`}
+              style={{ width: `${Math.abs(score) * 50}%` }}
+            />
+          </div>
+          <span className="w-16 text-right text-gray-500">{mentions} mention{mentions === 1 ? '' : 's'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function ConfidenceMeter({ confidence }: { confidence: number }) {
   const percentage = Math.round(confidence * 100);
   let color = 'bg-red-500';
@@ -106,7 +130,27 @@ function ConfidenceMeter({ confidence }: { confidence: number }) {
   );
 }
 
-export function ResultCard({ restaurant, errors }: ResultCardProps) {
+function DietaryMatch({ match }: { match: Partial<Record<DietaryNeed, number>> }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.entries(match) as [DietaryNeed, number][]).map(([need, confidence]) => {
+        const color =
+          confidence >= 0.7
+            ? 'bg-green-50 text-green-700 border-green-200'
+            : confidence >= 0.4
+            ? 'bg-yellow-50 text-yellow-700 border-yellow-200'
+            : 'bg-gray-50 text-gray-600 border-gray-200';
+        return (
+          <span key={need} className={`px-2 py-1 rounded-full border text-xs font-medium ${color}`}>
+            {DIETARY_SIGNALS[need].label} · {Math.round(confidence * 100)}% match
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ResultCard({ restaurant, errors, isFavorite = restaurant.isFavorite, onToggleFavorite, onBlock }: ResultCardProps) {
   const scoreColor =
     restaurant.aggregatedScore >= 4.5
       ? 'from-green-500 to-emerald-500'
@@ -129,18 +173,35 @@ export function ResultCard({ restaurant, errors }: ResultCardProps) {
         <div className="flex items-start justify-between">
           <div>
             <h2 className="text-2xl font-bold">{restaurant.name}</h2>
+            {restaurant.trend && (
+              <div
+                className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 bg-white/20 rounded-full text-xs font-bold"
+                title={`Last ${restaurant.trend.sampleSize} reviews average ${restaurant.trend.recentRating.toFixed(1)} vs ${restaurant.trend.lifetimeRating.toFixed(1)} overall`}
+              >
+                {restaurant.trend.direction === 'up' ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                TRENDING {restaurant.trend.direction === 'up' ? 'UP' : 'DOWN'}
+              </div>
+            )}
             <p className="text-white/80 text-sm mt-1">{restaurant.address}</p>
             {restaurant.cuisine && (
               <p className="text-white/70 text-sm mt-1">{restaurant.cuisine} {restaurant.priceLevel && `• ${restaurant.priceLevel}`}</p>
             )}
             {/* Location & Time info */}
-            <div className="flex items-center gap-4 mt-2 text-sm">
+            <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
               {restaurant.travelTimeMin !== undefined && (
                 <div className="flex items-center gap-1 text-white/90">
                   <Clock className="w-4 h-4" />
-                  <span>{restaurant.travelTimeMin} min away</span>
+                  <span>
+                    {restaurant.travelMode && `${TRAVEL_MODE_DISPLAY[restaurant.travelMode].icon} `}
+                    {restaurant.travelTimeMin} min away
+                  </span>
                 </div>
               )}
+              {restaurant.personTravelTimes?.map(person => (
+                <div key={person.label} className="flex items-center gap-1 text-white/90">
+                  <span>{person.label}: {TRAVEL_MODE_DISPLAY[person.mode].icon} {person.minutes} min</span>
+                </div>
+              ))}
               {restaurant.distanceKm !== undefined && (
                 <div className="flex items-center gap-1 text-white/70">
                   <MapPin className="w-4 h-4" />
@@ -164,11 +225,43 @@ export function ResultCard({ restaurant, errors }: ResultCardProps) {
               <TrendingUp className="w-4 h-4" />
               Aggregated Score
             </div>
+            {restaurant.ratingInterval && (
+              <div className="text-white/70 text-xs mt-1">
+                {Math.round(restaurant.ratingInterval.level * 100)}% likely {restaurant.ratingInterval.lower.toFixed(1)}–{restaurant.ratingInterval.upper.toFixed(1)}
+              </div>
+            )}
             {restaurant.valueScore !== undefined && restaurant.valueScore !== restaurant.aggregatedScore && (
               <div className="text-white/70 text-xs mt-1">
                 Value score: {restaurant.valueScore.toFixed(1)}
               </div>
             )}
+            {!!restaurant.personalAdjustment && (
+              <div className="text-white/70 text-xs">
+                For you: {restaurant.personalAdjustment > 0 ? '+' : ''}{restaurant.personalAdjustment.toFixed(2)}
+              </div>
+            )}
+            {(onToggleFavorite || onBlock) && (
+              <div className="flex gap-2 justify-end mt-2">
+                {onToggleFavorite && (
+                  <button
+                    onClick={onToggleFavorite}
+                    title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                    className="p-1.5 bg-white/20 hover:bg-white/30 rounded-full"
+                  >
+                    <Heart className={`w-4 h-4 ${isFavorite ? 'fill-white' : ''}`} />
+                  </button>
+                )}
+                {onBlock && (
+                  <button
+                    onClick={onBlock}
+                    title="Never show me this again"
+                    className="p-1.5 bg-white/20 hover:bg-white/30 rounded-full"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -181,6 +274,49 @@ export function ResultCard({ restaurant, errors }: ResultCardProps) {
         <ConfidenceMeter confidence={restaurant.confidence} />
       </div>
 
+      {/* Suspicious signals */}
+      {restaurant.anomalies && restaurant.anomalies.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex items-center gap-2 text-amber-700 text-sm font-medium mb-1">
+            <AlertCircle className="w-4 h-4" />
+            Some ratings count for less
+          </div>
+          <ul className="text-xs text-amber-600 space-y-1">
+            {restaurant.anomalies.map(anomaly => (
+              <li key={`${anomaly.platform}-${anomaly.kind}`}>{anomaly.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* What review text says */}
+      {restaurant.aspects && Object.keys(restaurant.aspects).length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <span className="block text-sm font-medium text-gray-700 mb-2">What Reviewers Say</span>
+          <AspectBars aspects={restaurant.aspects} />
+        </div>
+      )}
+
+      {/* Dietary match confidence */}
+      {restaurant.dietaryMatch && Object.keys(restaurant.dietaryMatch).length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Dietary Match</span>
+          <DietaryMatch match={restaurant.dietaryMatch} />
+        </div>
+      )}
+
+      {/* Rating history */}
+      <div className="px-6 py-4 border-b border-gray-100 empty:hidden">
+        <RatingSparkline placeId={restaurant.id} />
+      </div>
+
+      {/* Why this pick */}
+      {restaurant.explanation && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <ScoreExplanationPanel restaurant={restaurant} />
+        </div>
+      )}
+
       {/* Platform breakdown */}
       <div className="p-6">
         <h3 className="text-sm font-semibold text-gray-700 mb-3">Platform Breakdown</h3>
@@ -199,8 +335,8 @@ export function ResultCard({ restaurant, errors }: ResultCardProps) {
             </div>
             <ul className="text-xs text-amber-600 space-y-1">
               {Object.entries(errors).map(([platform, error]) => (
-                <li key={platform} className="capitalize">
-                  {platform}: {error}
+                <li key={platform}>
+                  {getPlatformInfo(platform).label}: {error}
                 </li>
               ))}
             </ul>
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { RankingMode, Restaurant } from '@/types';
+import { getPlatformInfo } from '@/lib/platforms';
+import { CONFIDENCE_WEIGHTS, getStrategyDescription } from '@/lib/scoring';
+import { rankingScore } from '@/lib/preferences';
+
+interface ScoreExplanationPanelProps {
+  restaurant: Restaurant;
+}
+
+const CONFIDENCE_LABELS: Record<keyof typeof CONFIDENCE_WEIGHTS, string> = {
+  platform: 'Platforms',
+  volume: 'Review volume',
+  consistency: 'Agreement',
+};
+
+const MODE_NOTES: Record<RankingMode, string | undefined> = {
+  expected: undefined,
+  optimistic: 'moved up to the top of its credible interval',
+  pessimistic: 'moved down to the bottom of its credible interval',
+};
+
+function signed(value: number, digits: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * Expandable "why this pick" breakdown of a restaurant's scores
+ */
+export function ScoreExplanationPanel({ restaurant }: ScoreExplanationPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { explanation } = restaurant;
+  if (!explanation) return null;
+
+  const { aggregate, confidence, value, rankingMode = 'expected' } = explanation;
+  const interval = restaurant.ratingInterval;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-700"
+      >
+        <HelpCircle className="w-4 h-4 text-orange-500" />
+        <span className="font-medium">Why this pick</span>
+        <span className="text-xs text-gray-500">ranked on {rankingScore(restaurant).toFixed(2)}</span>
+        {isOpen ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 text-xs text-gray-700">
+          {/* Rating: each platform's share of the aggregate */}
+          <div>
+            <p className="text-gray-500 mb-1">
+              Rating {aggregate.score.toFixed(2)} · {getStrategyDescription(aggregate.strategy)}
+            </p>
+            <table className="w-full">
+              <tbody>
+                {aggregate.platforms.map(p => (
+                  <tr key={p.platform}>
+                    <td className="py-0.5">
+                      {getPlatformInfo(p.platform).label}
+                      {restaurant.anomalies?.some(a => a.platform === p.platform) && (
+                        <span className="text-amber-600" title="Counted for less - see the warnings"> ⚠</span>
+                      )}
+                    </td>
+                    <td className="text-right">
+                      {p.rawRating !== undefined && <span className="text-gray-500">{p.rawRating.toFixed(1)} → </span>}
+                      {p.rating.toFixed(2)}
+                      {p.adjustedRating !== p.rating && (
+                        <span className="text-gray-500"> → {p.adjustedRating.toFixed(2)} ({signed(p.adjustedRating - p.rating)} {aggregate.strategy === 'recency_weighted' ? 'recent reviews' : 'shrinkage'})</span>
+                      )}
+                    </td>
+                    <td className="text-right text-gray-500">{Math.round(p.weight * 100)}%</td>
+                    <td className="text-right font-medium">{p.contribution.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Ranking: rating against travel time, price and the user's taste */}
+          {value && (
+            <div>
+              <p className="text-gray-500 mb-1">Value {value.score.toFixed(2)}</p>
+              <ul className="space-y-0.5">
+                <li>
+                  Rating {value.rating.toFixed(2)}
+                  {MODE_NOTES[rankingMode] && <span className="text-gray-500"> ({MODE_NOTES[rankingMode]})</span>}
+                </li>
+                {value.exceptionalBonus > 0 && <li>Exceptional bonus {signed(value.exceptionalBonus)}</li>}
+                <li>
+                  × {value.timeFactor.toFixed(2)} for {value.travelTimeMin} min travel (limit {value.maxTravelTimeMin} min)
+                </li>
+                {value.priceFactor !== 1 && <li>× {value.priceFactor.toFixed(2)} for price</li>}
+                {!!restaurant.personalAdjustment && (
+                  <li>
+                    {signed(restaurant.personalAdjustment)} for you{restaurant.isFavorite && ' (favorite)'}
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          {/* Confidence components */}
+          <div>
+            <p className="text-gray-500 mb-1">
+              Confidence {Math.round(confidence.score * 100)}%
+              {interval && ` · ${Math.round(interval.level * 100)}% sure the true rating is ${interval.lower.toFixed(2)}–${interval.upper.toFixed(2)}`}
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(CONFIDENCE_WEIGHTS) as (keyof typeof CONFIDENCE_WEIGHTS)[]).map(key => (
+                <span key={key} className="px-2 py-0.5 bg-gray-100 rounded-full">
+                  {CONFIDENCE_LABELS[key]} {Math.round(confidence[key] * 100)}% × {CONFIDENCE_WEIGHTS[key]}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { ChevronDown, Info } from 'lucide-react';
 import { WeightingStrategy, WeightingConfig } from '@/types';
 import { getStrategyDescription } from '@/lib/scoring';
+import { getDefaultPlatformWeights, getPlatformInfo } from '@/lib/platforms';
 
 interface WeightingSelectorProps {
   config: WeightingConfig;
@@ -16,16 +17,9 @@ const STRATEGIES: { value: WeightingStrategy; label: string }[] = [
   { value: 'bayesian_average', label: 'Bayesian Average' },
   { value: 'confidence_weighted', label: 'Confidence Weighted' },
   { value: 'platform_trust', label: 'Platform Trust' },
+  { value: 'recency_weighted', label: 'Recency Weighted' },
 ];
 
-const DEFAULT_PLATFORM_WEIGHTS = {
-  google: 1.0,
-  yelp: 1.0,
-  tripadvisor: 1.0,
-  foursquare: 0.9,
-  zomato: 0.8,
-};
-
 export function WeightingSelector({ config, onChange }: WeightingSelectorProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -33,7 +27,7 @@ export function WeightingSelector({ config, onChange }: WeightingSelectorProps)
     onChange({
       ...config,
       strategy,
-      platformWeights: strategy === 'platform_trust' ? DEFAULT_PLATFORM_WEIGHTS : undefined,
+      platformWeights: strategy === 'platform_trust' ? getDefaultPlatformWeights() : undefined,
     });
   };
 
@@ -134,10 +128,10 @@ export function WeightingSelector({ config, onChange }: WeightingSelectorProps)
                   Platform Weights
                 </label>
                 <div className="space-y-2">
-                  {Object.entries(config.platformWeights || DEFAULT_PLATFORM_WEIGHTS).map(
+                  {Object.entries(config.platformWeights || getDefaultPlatformWeights()).map(
                     ([platform, weight]) => (
                       <div key={platform} className="flex items-center gap-3">
-                        <span className="text-sm text-gray-700 w-24 capitalize">{platform}</span>
+                        <span className="text-sm text-gray-700 w-24">{getPlatformInfo(platform).label}</span>
                         <input
                           type="range"
                           min="0"
@@ -3,3 +3,6 @@ export { WeightingSelector } from './WeightingSelector';
 export { ResultCard } from './ResultCard';
 export { LocationButton } from './LocationButton';
 export { RestaurantList } from './RestaurantList';
+export { PreferencePanel } from './PreferencePanel';
+export { ScoreExplanationPanel } from './ScoreExplanationPanel';
+export { RatingSparkline } from './RatingSparkline';
@@ -0,0 +1,154 @@
+/**
+ * Suspicious rating signals
+ *
+ * Low variance across platforms earns confidence, but it can't tell an
+ * honest disagreement from one platform being gamed. We look for:
+ * - outliers: one platform far from what every other platform says
+ * - implausible ratings: near-perfect scores on very few reviews, or across
+ *   so many reviews that it's hard to believe
+ * - bursts: a platform's review count jumping far faster than it used to.
+ *   This needs weeks of rating snapshots, so callers only pass them in when
+ *   the snapshot store is persistent (see lib/history); otherwise no burst
+ *   is ever flagged.
+ *
+ * Each flag carries a weight multiplier that calculateAggregatedScore
+ * applies to that platform, and a reason to show the user.
+ */
+
+import { PlatformReview, RatingSnapshot, ReviewAnomaly } from '@/types';
+import { getPlatformInfo } from './platforms';
+
+// Outliers: needs at least 3 platforms to say which one is off
+const OUTLIER_MIN_PLATFORMS = 3;
+const OUTLIER_THRESHOLD = 0.8; // Stars from the median of the others
+const OUTLIER_WEIGHT = 0.3;
+
+const PERFECT_RATING = 4.9;
+const FEW_REVIEWS = 20;
+const MANY_REVIEWS = 1000;
+const IMPLAUSIBLE_WEIGHT = 0.5;
+
+const BURST_WINDOW_DAYS = 7;
+const BURST_MIN_NEW_REVIEWS = 20;
+const BURST_FACTOR = 5; // Times the usual weekly pace
+const BURST_WEIGHT = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Platforms far from the median of all the others. Compares ratings as
+ * aggregated (calibrated), so a platform that always runs high isn't flagged.
+ */
+export function detectOutliers(reviews: PlatformReview[]): ReviewAnomaly[] {
+  if (reviews.length < OUTLIER_MIN_PLATFORMS) return [];
+
+  return reviews.flatMap(review => {
+    const others = median(reviews.filter(r => r !== review).map(r => r.rating));
+    if (Math.abs(review.rating - others) < OUTLIER_THRESHOLD) return [];
+    return [{
+      platform: review.platform,
+      kind: 'outlier' as const,
+      weight: OUTLIER_WEIGHT,
+      reason: `${getPlatformInfo(review.platform).label} says ${review.rating.toFixed(1)} but the other platforms say about ${others.toFixed(1)}`,
+    }];
+  });
+}
+
+/**
+ * Near-perfect published ratings that the review volume doesn't support
+ */
+export function detectImplausibleRatings(reviews: PlatformReview[]): ReviewAnomaly[] {
+  return reviews.flatMap(review => {
+    const rating = review.rawRating ?? review.rating;
+    if (rating < PERFECT_RATING) return [];
+
+    const label = getPlatformInfo(review.platform).label;
+    if (review.reviewCount > 0 && review.reviewCount < FEW_REVIEWS) {
+      return [{
+        platform: review.platform,
+        kind: 'implausible' as const,
+        weight: IMPLAUSIBLE_WEIGHT,
+        reason: `${label} shows ${rating.toFixed(1)} from only ${review.reviewCount} reviews`,
+      }];
+    }
+    if (review.reviewCount >= MANY_REVIEWS) {
+      return [{
+        platform: review.platform,
+        kind: 'implausible' as const,
+        weight: IMPLAUSIBLE_WEIGHT,
+        reason: `${label} shows ${rating.toFixed(1)} across ${review.reviewCount.toLocaleString()} reviews, which is rarely organic`,
+      }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Platforms whose review count grew far faster over the last week than it
+ * had been growing before
+ */
+export function detectReviewBursts(snapshots: RatingSnapshot[]): ReviewAnomaly[] {
+  const byPlatform = new Map<string, RatingSnapshot[]>();
+  for (const snapshot of snapshots) {
+    byPlatform.set(snapshot.platform, [...(byPlatform.get(snapshot.platform) ?? []), snapshot]);
+  }
+
+  const anomalies: ReviewAnomaly[] = [];
+  for (const series of byPlatform.values()) {
+    const sorted = [...series].sort((a, b) => a.at.localeCompare(b.at));
+    const time = (s: RatingSnapshot) => new Date(s.at).getTime();
+    const latest = sorted[sorted.length - 1];
+    const first = sorted[0];
+
+    // The last snapshot before this week, and enough history before it to know the usual pace
+    const before = [...sorted].reverse().find(s => time(s) <= time(latest) - BURST_WINDOW_DAYS * DAY_MS);
+    if (!before || before === first) continue;
+
+    const recentDays = (time(latest) - time(before)) / DAY_MS;
+    const baselineDays = (time(before) - time(first)) / DAY_MS;
+    const newReviews = latest.reviewCount - before.reviewCount;
+    const recentPerWeek = (newReviews / recentDays) * 7;
+    const usualPerWeek = ((before.reviewCount - first.reviewCount) / baselineDays) * 7;
+
+    if (newReviews >= BURST_MIN_NEW_REVIEWS && recentPerWeek >= BURST_FACTOR * Math.max(usualPerWeek, 1)) {
+      anomalies.push({
+        platform: latest.platform,
+        kind: 'burst',
+        weight: BURST_WEIGHT,
+        reason: `${getPlatformInfo(latest.platform).label} gained ${newReviews} reviews in ${Math.round(recentDays)} days, against about ${Math.round(usualPerWeek)} a week before`,
+      });
+    }
+  }
+  return anomalies;
+}
+
+/**
+ * Every suspicious signal for a place's reviews (and its snapshot history, if any)
+ */
+export function detectAnomalies(
+  reviews: PlatformReview[],
+  snapshots: RatingSnapshot[] = []
+): ReviewAnomaly[] {
+  const seen = new Set(reviews.map(r => r.platform));
+  return [
+    ...detectOutliers(reviews),
+    ...detectImplausibleRatings(reviews),
+    // Only platforms we're actually aggregating
+    ...detectReviewBursts(snapshots).filter(a => seen.has(a.platform)),
+  ];
+}
+
+/**
+ * Weight multiplier for a platform: the product of its flags' weights
+ */
+export function anomalyWeight(platform: string, anomalies: ReviewAnomaly[]): number {
+  return anomalies
+    .filter(a => a.platform === platform)
+    .reduce((weight, a) => weight * a.weight, 1);
+}
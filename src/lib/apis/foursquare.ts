@@ -5,7 +5,10 @@
  * Set as FOURSQUARE_API_KEY in your environment
  */
 
-import { PlatformReview } from '@/types';
+import { DietaryNeed, PlatformReview } from '@/types';
+import { dietaryKeyword, DIETARY_NEEDS } from '@/lib/dietary';
+import { findBestMatch } from '@/lib/matching';
+import { cuisineFromFoursquareId } from '@/lib/cuisine';
 
 const FOURSQUARE_API_KEY = process.env.FOURSQUARE_API_KEY;
 
@@ -13,6 +16,8 @@ interface FoursquarePlace {
   fsq_id: string;
   name: string;
   rating?: number;
+  tel?: string;
+  categories?: { id: number; name: string }[];
   stats?: {
     total_ratings: number;
   };
@@ -29,65 +34,86 @@ interface FoursquarePlace {
 
 /**
  * Search Foursquare for a place by name and location
+ * Looks at the top few hits and keeps the one that best matches the place.
  */
-export async function searchFoursquare(name: string, near: string): Promise<PlatformReview | null> {
+export async function searchFoursquare(
+  name: string,
+  near: string,
+  coordinates: { latitude?: number; longitude?: number } = {}
+): Promise<PlatformReview | null> {
   if (!FOURSQUARE_API_KEY) {
     return null;
   }
 
-  try {
-    const url = new URL('https://api.foursquare.com/v3/places/search');
-    url.searchParams.set('query', name);
-    url.searchParams.set('near', near);
-    url.searchParams.set('categories', '13065'); // Restaurants category
-    url.searchParams.set('limit', '1');
-    url.searchParams.set('fields', 'fsq_id,name,rating,stats,location');
+  const url = new URL('https://api.foursquare.com/v3/places/search');
+  url.searchParams.set('query', name);
+  url.searchParams.set('near', near);
+  url.searchParams.set('categories', '13065'); // Restaurants category
+  url.searchParams.set('limit', '5');
+  url.searchParams.set('fields', 'fsq_id,name,rating,stats,location,geocodes,tel,categories');
 
-    // Foursquare v3 API key format
-    const authKey = FOURSQUARE_API_KEY.startsWith('fsq') ? FOURSQUARE_API_KEY : `fsq${FOURSQUARE_API_KEY}`;
-    
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': authKey,
-        'Accept': 'application/json',
-      },
-    });
+  // Foursquare v3 API key format
+  const authKey = FOURSQUARE_API_KEY.startsWith('fsq') ? FOURSQUARE_API_KEY : `fsq${FOURSQUARE_API_KEY}`;
+  
+  const response = await fetch(url.toString(), {
+    headers: {
+      'Authorization': authKey,
+      'Accept': 'application/json',
+    },
+  });
 
-    if (!response.ok) {
-      // Silently fail - API key may be invalid or rate limited
-      return null;
-    }
+  if (!response.ok) {
+    // API key may be invalid or rate limited: throw so the miss isn't cached
+    throw new Error(`Foursquare API error: ${response.status}`);
+  }
 
-    const data = await response.json();
-    
-    if (!data.results || data.results.length === 0) {
-      return null;
-    }
+  const data = await response.json();
+  
+  if (!data.results || data.results.length === 0) {
+    return null;
+  }
 
-    const place: FoursquarePlace = data.results[0];
-    
-    // Foursquare ratings are out of 10, convert to 5
-    const rating = place.rating ? place.rating / 2 : 0;
-    
-    return {
-      platform: 'foursquare',
-      rating,
-      reviewCount: place.stats?.total_ratings || 0,
-    };
-  } catch (error) {
-    console.error('Foursquare API error:', error);
+  const match = findBestMatch(
+    { name, address: near, ...coordinates },
+    data.results as FoursquarePlace[],
+    (p) => ({
+      name: p.name,
+      address: p.location.formatted_address,
+      latitude: p.geocodes?.main.latitude,
+      longitude: p.geocodes?.main.longitude,
+      phone: p.tel,
+    })
+  );
+
+  if (!match) {
     return null;
   }
+
+  const place = match.candidate;
+  
+  // Foursquare ratings are out of 10, convert to 5
+  const rating = place.rating ? place.rating / 2 : 0;
+  
+  return {
+    platform: 'foursquare',
+    rating,
+    reviewCount: place.stats?.total_ratings || 0,
+    matchConfidence: match.confidence,
+    categories: place.categories?.map(c => c.name),
+    cuisines: place.categories?.map(c => cuisineFromFoursquareId(c.id)).filter((c): c is string => !!c),
+  };
 }
 
 /**
- * Search Foursquare for nearby restaurants
+ * Search Foursquare for nearby restaurants, with `dietary` pushed into the
+ * query when given. Unknown needs are ignored.
  */
 export async function searchFoursquareNearby(
   latitude: number,
   longitude: number,
   radiusMeters: number = 5000,
-  openNow: boolean = true
+  openNow: boolean = true,
+  dietary: DietaryNeed[] = []
 ): Promise<FoursquarePlace[]> {
   if (!FOURSQUARE_API_KEY) {
     return [];
@@ -100,7 +126,11 @@ export async function searchFoursquareNearby(
     url.searchParams.set('categories', '13065'); // Restaurants
     url.searchParams.set('limit', '20');
     url.searchParams.set('sort', 'RATING');
-    url.searchParams.set('fields', 'fsq_id,name,rating,stats,location,geocodes');
+    url.searchParams.set('fields', 'fsq_id,name,rating,stats,location,geocodes,categories');
+    const keyword = dietaryKeyword(dietary.filter(need => DIETARY_NEEDS.includes(need)));
+    if (keyword) {
+      url.searchParams.set('query', keyword);
+    }
     if (openNow) {
       url.searchParams.set('open_now', 'true');
     }
@@ -4,13 +4,66 @@
  */
 
 import { PlatformReview } from '@/types';
-import { searchYelp } from './yelp';
+import { fetchYelpReviews, searchYelp } from './yelp';
 import { searchTripAdvisor } from './tripadvisor';
+import { searchFoursquare } from './foursquare';
+import { searchOpenTable } from './opentable';
+import { searchZomato } from './zomato';
+import { registerProvider, getProviders, ProviderLookup, ReviewProvider } from './registry';
+import { cached } from '@/lib/cache';
+import { getRecentGoogleReviews } from '@/lib/places';
 
-export { searchYelp, searchYelpNearby } from './yelp';
+export { searchYelp, searchYelpNearby, fetchYelpReviews } from './yelp';
 export { searchTripAdvisor } from './tripadvisor';
+export { searchFoursquare, searchFoursquareNearby } from './foursquare';
+export { searchOpenTable } from './opentable';
+export { searchZomato } from './zomato';
+export { registerProvider, getProvider, getProviders } from './registry';
+export type { ReviewProvider, ProviderCapability, ProviderLookup } from './registry';
 
 const API_TIMEOUT = 5000; // 5 second timeout per API call
+const HOUR = 60 * 60 * 1000;
+
+registerProvider({
+  name: 'yelp',
+  capabilities: ['rating', 'nearby', 'reviews'],
+  timeoutMs: API_TIMEOUT,
+  cacheTtlMs: 24 * HOUR,
+  fetch: ({ name, location, ...near }) => searchYelp(name, location, near),
+  fetchRecentReviews: fetchYelpReviews,
+});
+
+registerProvider({
+  name: 'tripadvisor',
+  capabilities: ['rating'],
+  timeoutMs: API_TIMEOUT,
+  cacheTtlMs: 72 * HOUR, // Content API quota is tight, ratings move slowly
+  fetch: ({ name, location, ...near }) => searchTripAdvisor(name, location, near),
+});
+
+registerProvider({
+  name: 'foursquare',
+  capabilities: ['rating', 'nearby'],
+  timeoutMs: API_TIMEOUT,
+  cacheTtlMs: 24 * HOUR,
+  fetch: ({ name, location, ...near }) => searchFoursquare(name, location, near),
+});
+
+registerProvider({
+  name: 'zomato',
+  capabilities: ['rating'],
+  timeoutMs: API_TIMEOUT,
+  cacheTtlMs: 24 * HOUR,
+  fetch: ({ name, location, ...near }) => searchZomato(name, location, near),
+});
+
+registerProvider({
+  name: 'opentable',
+  capabilities: ['rating'],
+  timeoutMs: API_TIMEOUT,
+  cacheTtlMs: 24 * HOUR,
+  fetch: ({ name, location }) => searchOpenTable(name, location),
+});
 
 /**
  * Wrap a promise with a timeout
@@ -23,23 +76,77 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
 }
 
 /**
- * Fetch reviews from multiple platforms in PARALLEL
- * Each API call has a timeout to prevent slow responses from blocking
+ * Fetch one provider's rating through the cache, stamping lastUpdated with
+ * when the provider was actually asked. Ratings and "no match" answers are
+ * cached; a provider that throws (rate limit, network) is asked again next time.
+ */
+async function fetchCachedReview(
+  provider: ReviewProvider,
+  lookup: ProviderLookup
+): Promise<PlatformReview | null> {
+  const subject = lookup.placeId ?? `${lookup.name}|${lookup.location}`.toLowerCase();
+  const { value, fetchedAt } = await cached(
+    `review:${provider.name}:${subject}`,
+    { ttlMs: provider.cacheTtlMs },
+    () => provider.fetch(lookup)
+  );
+  return value ? { ...value, lastUpdated: fetchedAt } : null;
+}
+
+/**
+ * Fetch reviews from the registered rating providers in PARALLEL
+ * Each provider has its own timeout to prevent slow responses from blocking,
+ * and matches its candidates against the lookup's name, address and coordinates.
+ * Pass `platforms` to limit which providers run (default: all of them).
  */
 export async function fetchAllPlatformReviews(
-  restaurantName: string,
-  location: string
+  lookup: ProviderLookup,
+  platforms?: string[]
 ): Promise<PlatformReview[]> {
-  // Run Yelp and TripAdvisor in parallel with timeouts
-  const [yelpResult, tripAdvisorResult] = await Promise.all([
-    withTimeout(searchYelp(restaurantName, location), API_TIMEOUT),
-    withTimeout(searchTripAdvisor(restaurantName, location), API_TIMEOUT),
-  ]);
+  const providers = getProviders(platforms, 'rating');
+
+  const results = await Promise.all(
+    providers.map(provider =>
+      withTimeout(
+        fetchCachedReview(provider, lookup).catch(() => null),
+        provider.timeoutMs
+      )
+    )
+  );
+
+  return results.filter((r): r is PlatformReview => r !== null);
+}
+
+/**
+ * Attach each platform's newest review excerpts (Google from Place Details,
+ * providers with the 'reviews' capability by their own id). These cost an
+ * extra call per place and platform, so callers only ask for the places
+ * they're about to show, or when ranking actually needs the text.
+ * Reviews that already carry excerpts are left alone; a failed fetch just
+ * leaves a platform without them.
+ */
+export async function withRecentReviews(
+  reviews: PlatformReview[],
+  placeId: string
+): Promise<PlatformReview[]> {
+  return Promise.all(
+    reviews.map(async review => {
+      if (review.recentReviews) return review;
 
-  const reviews: PlatformReview[] = [];
-  
-  if (yelpResult) reviews.push(yelpResult);
-  if (tripAdvisorResult) reviews.push(tripAdvisorResult);
+      if (review.platform === 'google') {
+        return { ...review, recentReviews: await getRecentGoogleReviews(placeId) };
+      }
 
-  return reviews;
+      const provider = getProviders([review.platform], 'reviews')[0];
+      if (!provider?.fetchRecentReviews || !review.externalId) return review;
+      const { externalId } = review;
+      const samples = await withTimeout(
+        cached(`samples:${provider.name}:${externalId}`, { ttlMs: provider.cacheTtlMs }, () =>
+          provider.fetchRecentReviews!(externalId)
+        ).then(({ value }) => value).catch(() => null),
+        provider.timeoutMs
+      );
+      return samples ? { ...review, recentReviews: samples } : review;
+    })
+  );
 }
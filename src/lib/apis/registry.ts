@@ -0,0 +1,65 @@
+/**
+ * Review provider registry
+ *
+ * Each review source registers a name, what it can do, how long we're
+ * willing to wait for it, how long its answers stay fresh and the function
+ * that fetches its rating.
+ * fetchAllPlatformReviews runs whichever registered providers the caller asks for.
+ */
+
+import { PlatformId, PlatformReview, ReviewSample } from '@/types';
+
+export type ProviderCapability =
+  | 'rating' // Can look up a rating for a named restaurant
+  | 'nearby' // Can discover restaurants around a coordinate
+  | 'reviews'; // Can share recent review excerpts for a place it matched
+
+export interface ProviderLookup {
+  placeId?: string; // Google place id, used as the cache key when present
+  name: string;
+  location: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ReviewProvider {
+  name: PlatformId;
+  capabilities: ProviderCapability[];
+  timeoutMs: number;
+  cacheTtlMs: number; // How long a fetched rating (or a confirmed "no match") stays fresh
+  // Null only when the platform has no match; failures must throw so they aren't cached
+  fetch: (lookup: ProviderLookup) => Promise<PlatformReview | null>;
+  // With 'reviews': newest excerpts by the externalId from fetch
+  fetchRecentReviews?: (externalId: string) => Promise<ReviewSample[]>;
+}
+
+const providers = new Map<string, ReviewProvider>();
+
+/**
+ * Register (or replace) a review provider
+ */
+export function registerProvider(provider: ReviewProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Look up a single provider by name
+ */
+export function getProvider(name: string): ReviewProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * List registered providers, optionally restricted to the given names
+ * and/or to those that have a capability
+ */
+export function getProviders(
+  names?: string[],
+  capability?: ProviderCapability
+): ReviewProvider[] {
+  const all = Array.from(providers.values());
+  return all.filter(p =>
+    (!names || names.includes(p.name)) &&
+    (!capability || p.capabilities.includes(capability))
+  );
+}
@@ -6,6 +6,8 @@
  */
 
 import { PlatformReview } from '@/types';
+import { findBestMatch, calculateMatchConfidence, MatchTarget, MATCH_REJECT_THRESHOLD } from '@/lib/matching';
+import { cuisineFromLabel } from '@/lib/cuisine';
 
 const TRIPADVISOR_API_KEY = process.env.TRIPADVISOR_API_KEY;
 
@@ -23,77 +25,116 @@ interface TripAdvisorDetails {
   rating: string;
   num_reviews: string;
   web_url: string;
+  latitude?: string;
+  longitude?: string;
+  phone?: string;
+  address_obj?: {
+    address_string: string;
+  };
+  cuisine?: { name: string; localized_name: string }[];
+  dietary_restrictions?: { name: string; localized_name: string }[];
 }
 
 /**
  * Search TripAdvisor for a restaurant by name and location
+ * Candidates are matched on name and address first, then re-checked against
+ * the coordinates and phone number from the chosen location's details.
+ * Null means no match; API failures throw so they aren't cached.
  */
-export async function searchTripAdvisor(name: string, location: string): Promise<PlatformReview | null> {
+export async function searchTripAdvisor(
+  name: string,
+  location: string,
+  near: { latitude?: number; longitude?: number } = {}
+): Promise<PlatformReview | null> {
   if (!TRIPADVISOR_API_KEY) {
     return null;
   }
 
-  try {
-    // Search for the location
-    const searchUrl = new URL('https://api.content.tripadvisor.com/api/v1/location/search');
-    searchUrl.searchParams.set('key', TRIPADVISOR_API_KEY);
-    searchUrl.searchParams.set('searchQuery', `${name} restaurant ${location}`);
-    searchUrl.searchParams.set('category', 'restaurants');
-    searchUrl.searchParams.set('language', 'en');
-
-    const searchResponse = await fetch(searchUrl.toString(), {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!searchResponse.ok) {
-      return null;
-    }
-
-    const searchData = await searchResponse.json();
-    
-    if (!searchData.data || searchData.data.length === 0) {
-      return null;
-    }
-
-    // Find best match by name similarity
-    const searchResult: TripAdvisorSearchResult = searchData.data[0];
-    const locationId = searchResult.location_id;
-
-    // Get details for the location (includes rating)
-    const detailsUrl = new URL(`https://api.content.tripadvisor.com/api/v1/location/${locationId}/details`);
-    detailsUrl.searchParams.set('key', TRIPADVISOR_API_KEY);
-    detailsUrl.searchParams.set('language', 'en');
-
-    const detailsResponse = await fetch(detailsUrl.toString(), {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!detailsResponse.ok) {
-      return null;
-    }
-
-    const details: TripAdvisorDetails = await detailsResponse.json();
-    
-    const rating = parseFloat(details.rating);
-    const reviewCount = parseInt(details.num_reviews, 10);
-
-    if (isNaN(rating) || rating === 0) {
-      return null;
-    }
-
-    console.log(`TripAdvisor found: ${details.name} - ${rating}★ (${reviewCount} reviews)`);
-
-    return {
-      platform: 'tripadvisor',
-      rating,
-      reviewCount: isNaN(reviewCount) ? 0 : reviewCount,
-      url: details.web_url,
-    };
-  } catch (error) {
+  // Search for the location
+  const searchUrl = new URL('https://api.content.tripadvisor.com/api/v1/location/search');
+  searchUrl.searchParams.set('key', TRIPADVISOR_API_KEY);
+  searchUrl.searchParams.set('searchQuery', `${name} restaurant ${location}`);
+  searchUrl.searchParams.set('category', 'restaurants');
+  searchUrl.searchParams.set('language', 'en');
+  if (near.latitude !== undefined && near.longitude !== undefined) {
+    searchUrl.searchParams.set('latLong', `${near.latitude},${near.longitude}`);
+  }
+
+  const searchResponse = await fetch(searchUrl.toString(), {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!searchResponse.ok) {
+    throw new Error(`TripAdvisor API error: ${searchResponse.status}`);
+  }
+
+  const searchData = await searchResponse.json();
+  
+  if (!searchData.data || searchData.data.length === 0) {
+    return null;
+  }
+
+  // Find best match by name and address similarity
+  const target: MatchTarget = { name, address: location, ...near };
+  const searchMatch = findBestMatch(
+    target,
+    searchData.data as TripAdvisorSearchResult[],
+    (r) => ({ name: r.name, address: r.address_obj?.address_string })
+  );
+
+  if (!searchMatch) {
+    return null;
+  }
+
+  const locationId = searchMatch.candidate.location_id;
+
+  // Get details for the location (includes rating)
+  const detailsUrl = new URL(`https://api.content.tripadvisor.com/api/v1/location/${locationId}/details`);
+  detailsUrl.searchParams.set('key', TRIPADVISOR_API_KEY);
+  detailsUrl.searchParams.set('language', 'en');
+
+  const detailsResponse = await fetch(detailsUrl.toString(), {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!detailsResponse.ok) {
+    throw new Error(`TripAdvisor API error: ${detailsResponse.status}`);
+  }
+
+  const details: TripAdvisorDetails = await detailsResponse.json();
+  
+  const rating = parseFloat(details.rating);
+  const reviewCount = parseInt(details.num_reviews, 10);
+
+  if (isNaN(rating) || rating === 0) {
+    return null;
+  }
+
+  const matchConfidence = calculateMatchConfidence(target, {
+    name: details.name,
+    address: details.address_obj?.address_string,
+    latitude: details.latitude ? parseFloat(details.latitude) : undefined,
+    longitude: details.longitude ? parseFloat(details.longitude) : undefined,
+    phone: details.phone,
+  });
+
+  if (matchConfidence < MATCH_REJECT_THRESHOLD) {
     return null;
   }
+
+  console.log(`TripAdvisor found: ${details.name} - ${rating}★ (${reviewCount} reviews, match ${matchConfidence})`);
+
+  return {
+    platform: 'tripadvisor',
+    rating,
+    reviewCount: isNaN(reviewCount) ? 0 : reviewCount,
+    url: details.web_url,
+    matchConfidence,
+    categories: [...(details.cuisine ?? []), ...(details.dietary_restrictions ?? [])].map(c => c.localized_name),
+    cuisines: (details.cuisine ?? []).map(c => cuisineFromLabel(c.localized_name)).filter((c): c is string => !!c),
+  };
 }
@@ -5,7 +5,11 @@
  * Set as YELP_API_KEY in your environment
  */
 
-import { PlatformReview } from '@/types';
+import { DietaryNeed, PlatformReview, ReviewSample } from '@/types';
+import { findBestMatch } from '@/lib/matching';
+import { cuisineFromYelpAlias } from '@/lib/cuisine';
+import { DIETARY_NEEDS } from '@/lib/dietary';
+import { zonedTimeToDate } from '@/lib/timezone';
 
 const YELP_API_KEY = process.env.YELP_API_KEY;
 
@@ -15,6 +19,7 @@ interface YelpBusiness {
   rating: number;
   review_count: number;
   url: string;
+  phone?: string;
   location: {
     address1: string;
     city: string;
@@ -25,6 +30,11 @@ interface YelpBusiness {
     longitude: number;
   };
   is_closed: boolean;
+  categories?: { alias: string; title: string }[];
+}
+
+interface YelpReviewsResponse {
+  reviews: { rating: number; text: string; time_created: string }[];
 }
 
 interface YelpSearchResponse {
@@ -34,65 +44,127 @@ interface YelpSearchResponse {
 
 /**
  * Search Yelp for a business by name and location
+ * Looks at the top few hits and keeps the one that best matches the place.
+ * Null means Yelp has no match; failures (rate limits, network) throw, so
+ * the cache doesn't remember them as "not on Yelp".
  */
-export async function searchYelp(name: string, location: string): Promise<PlatformReview | null> {
+export async function searchYelp(
+  name: string,
+  location: string,
+  near: { latitude?: number; longitude?: number } = {}
+): Promise<PlatformReview | null> {
   if (!YELP_API_KEY) {
     return null;
   }
 
-  try {
-    const url = new URL('https://api.yelp.com/v3/businesses/search');
-    url.searchParams.set('term', name);
-    url.searchParams.set('location', location);
-    url.searchParams.set('limit', '1');
-    url.searchParams.set('categories', 'restaurants,food');
+  const url = new URL('https://api.yelp.com/v3/businesses/search');
+  url.searchParams.set('term', name);
+  url.searchParams.set('location', location);
+  url.searchParams.set('limit', '5');
+  url.searchParams.set('categories', 'restaurants,food');
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${YELP_API_KEY}`,
-      },
-    });
+  const response = await fetch(url.toString(), {
+    headers: {
+      'Authorization': `Bearer ${YELP_API_KEY}`,
+    },
+  });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        // Rate limited - silently fail
-        return null;
-      }
+  if (!response.ok) {
+    // Rate limits are routine under load, anything else is worth a log line
+    if (response.status !== 429) {
       const errorBody = await response.text().catch(() => '');
       console.error(`Yelp API error: ${response.status}`, errorBody.substring(0, 200));
-      return null;
     }
+    throw new Error(`Yelp API error: ${response.status}`);
+  }
 
-    const data: YelpSearchResponse = await response.json();
-    
-    if (data.businesses.length === 0) {
-      console.log(`Yelp: No results for "${name}" in "${location}"`);
-      return null;
-    }
+  const data: YelpSearchResponse = await response.json();
 
-    const business = data.businesses[0];
-    console.log(`Yelp found: ${business.name} - ${business.rating}★ (${business.review_count} reviews)`);
-    
-    return {
-      platform: 'yelp',
-      rating: business.rating,
-      reviewCount: business.review_count,
-      url: business.url,
-    };
-  } catch (error) {
-    console.error('Yelp API error:', error);
+  if (data.businesses.length === 0) {
+    console.log(`Yelp: No results for "${name}" in "${location}"`);
+    return null;
+  }
+
+  const match = findBestMatch(
+    { name, address: location, ...near },
+    data.businesses,
+    (b) => ({
+      name: b.name,
+      address: b.location.address1,
+      latitude: b.coordinates.latitude,
+      longitude: b.coordinates.longitude,
+      phone: b.phone,
+    })
+  );
+
+  if (!match) {
+    console.log(`Yelp: No confident match for "${name}" in "${location}"`);
     return null;
   }
+
+  const business = match.candidate;
+  console.log(`Yelp found: ${business.name} - ${business.rating}★ (${business.review_count} reviews, match ${match.confidence})`);
+
+  return {
+    platform: 'yelp',
+    rating: business.rating,
+    reviewCount: business.review_count,
+    url: business.url,
+    externalId: business.id,
+    matchConfidence: match.confidence,
+    categories: business.categories?.map(c => c.alias),
+    cuisines: business.categories?.map(c => cuisineFromYelpAlias(c.alias)).filter((c): c is string => !!c),
+  };
 }
 
+// Yelp's review timestamps are US Pacific time without an offset, wherever the business is
+const YELP_REVIEW_TIME_ZONE = 'America/Los_Angeles';
+
 /**
- * Search Yelp for nearby restaurants
+ * Newest review excerpts for a business (Yelp shares up to 3), with
+ * "2024-05-01 18:20:11" timestamps read as Pacific time
+ */
+export async function fetchYelpReviews(businessId: string): Promise<ReviewSample[]> {
+  if (!YELP_API_KEY) {
+    return [];
+  }
+
+  const url = new URL(`https://api.yelp.com/v3/businesses/${businessId}/reviews`);
+  url.searchParams.set('sort_by', 'newest');
+  url.searchParams.set('limit', '3');
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      'Authorization': `Bearer ${YELP_API_KEY}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Yelp reviews error: ${response.status}`);
+  }
+
+  const data: YelpReviewsResponse = await response.json();
+  return data.reviews.map(r => {
+    const [year, month, day, hour, minute] = r.time_created.split(/[^\d]/).map(Number);
+    return {
+      rating: r.rating,
+      time: zonedTimeToDate(year, month, day, hour, minute, YELP_REVIEW_TIME_ZONE).toISOString(),
+      text: r.text,
+    };
+  });
+}
+
+/**
+ * Search Yelp for nearby restaurants, limited to places catering to any of
+ * `dietary` and within the `price` levels (1-4) when given. Unknown needs and
+ * out-of-range levels are ignored.
  */
 export async function searchYelpNearby(
   latitude: number,
   longitude: number,
   radiusMeters: number = 5000,
-  openNow: boolean = true
+  openNow: boolean = true,
+  dietary: DietaryNeed[] = [],
+  price: { min?: number; max?: number } = {}
 ): Promise<YelpBusiness[]> {
   if (!YELP_API_KEY) {
     return [];
@@ -103,12 +175,19 @@ export async function searchYelpNearby(
     url.searchParams.set('latitude', latitude.toString());
     url.searchParams.set('longitude', longitude.toString());
     url.searchParams.set('radius', Math.min(radiusMeters, 40000).toString()); // Max 40km
-    url.searchParams.set('categories', 'restaurants,food');
+    // Yelp's dietary categories share the need ids (vegan, gluten_free, halal...)
+    const needs = dietary.filter(need => DIETARY_NEEDS.includes(need));
+    url.searchParams.set('categories', needs.length > 0 ? needs.join(',') : 'restaurants,food');
     url.searchParams.set('sort_by', 'rating');
     url.searchParams.set('limit', '20');
     if (openNow) {
       url.searchParams.set('open_now', 'true');
     }
+    // Yelp takes a list of levels: "1,2,3"
+    const levels = [1, 2, 3, 4].filter(l => l >= (price.min ?? 1) && l <= (price.max ?? 4));
+    if (levels.length > 0 && levels.length < 4) {
+      url.searchParams.set('price', levels.join(','));
+    }
 
     const response = await fetch(url.toString(), {
       headers: {
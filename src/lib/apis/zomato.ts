@@ -0,0 +1,110 @@
+/**
+ * Zomato API integration
+ * 
+ * Get API key at: https://developers.zomato.com/api
+ * Set as ZOMATO_API_KEY in your environment
+ */
+
+import { PlatformReview } from '@/types';
+import { findBestMatch } from '@/lib/matching';
+import { cuisineFromLabel } from '@/lib/cuisine';
+
+const ZOMATO_API_KEY = process.env.ZOMATO_API_KEY;
+
+interface ZomatoRestaurant {
+  id: string;
+  name: string;
+  url: string;
+  phone_numbers?: string;
+  cuisines?: string; // Comma-separated, e.g. "North Indian, Vegetarian"
+  location: {
+    address: string;
+    latitude: string;
+    longitude: string;
+  };
+  user_rating: {
+    aggregate_rating: string;
+    votes: string;
+  };
+}
+
+interface ZomatoSearchResponse {
+  restaurants: { restaurant: ZomatoRestaurant }[];
+}
+
+/**
+ * Search Zomato for a restaurant by name and location
+ * Looks at the top few hits and keeps the one that best matches the place.
+ */
+export async function searchZomato(
+  name: string,
+  location: string,
+  near: { latitude?: number; longitude?: number } = {}
+): Promise<PlatformReview | null> {
+  if (!ZOMATO_API_KEY) {
+    return null;
+  }
+
+  const url = new URL('https://developers.zomato.com/api/v2.1/search');
+  url.searchParams.set('count', '5');
+  if (near.latitude !== undefined && near.longitude !== undefined) {
+    url.searchParams.set('q', name);
+    url.searchParams.set('lat', near.latitude.toString());
+    url.searchParams.set('lon', near.longitude.toString());
+    url.searchParams.set('radius', '1000');
+  } else {
+    // Without coordinates Zomato needs a city entity id we don't have
+    url.searchParams.set('q', `${name} ${location}`);
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      'user-key': ZOMATO_API_KEY,
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Zomato API error: ${response.status}`);
+  }
+
+  const data: ZomatoSearchResponse = await response.json();
+  const candidates = (data.restaurants || []).map(r => r.restaurant);
+
+  const match = findBestMatch(
+    { name, address: location, ...near },
+    candidates,
+    (r) => ({
+      name: r.name,
+      address: r.location.address,
+      latitude: parseFloat(r.location.latitude),
+      longitude: parseFloat(r.location.longitude),
+      phone: r.phone_numbers?.split(',')[0],
+    })
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  const restaurant = match.candidate;
+  const rating = parseFloat(restaurant.user_rating.aggregate_rating);
+  const reviewCount = parseInt(restaurant.user_rating.votes, 10);
+
+  // Zomato reports 0 for "not rated yet"
+  if (isNaN(rating) || rating === 0) {
+    return null;
+  }
+
+  const categories = restaurant.cuisines?.split(',').map(c => c.trim()).filter(Boolean);
+
+  return {
+    platform: 'zomato',
+    rating,
+    reviewCount: isNaN(reviewCount) ? 0 : reviewCount,
+    url: restaurant.url,
+    matchConfidence: match.confidence,
+    categories,
+    cuisines: categories?.map(cuisineFromLabel).filter((c): c is string => !!c),
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Response cache for review providers and Google Places
+ *
+ * Entries are kept for a per-source TTL. Once an entry is past its TTL but
+ * still within the stale window we serve it immediately and refresh it in
+ * the background (stale-while-revalidate), so repeat searches don't pay for
+ * another round of API calls.
+ *
+ * Backends:
+ * - memory (default): per-process Map, lost on cold start, least recently
+ *   used entries evicted past a size cap
+ * - file: one JSON file per key under REVIEW_CACHE_DIR (default: OS temp dir),
+ *   oldest files deleted past a size cap
+ *
+ * Select with REVIEW_CACHE_BACKEND=memory|file
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number; // epoch ms
+}
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheOptions {
+  ttlMs: number; // Fresh for this long
+  staleMs?: number; // Then served stale (while refreshing) for this much longer
+}
+
+export interface CachedResult<T> {
+  value: T;
+  fetchedAt: Date;
+  stale: boolean;
+}
+
+const DEFAULT_STALE_FACTOR = 3; // Stale window defaults to 3x the TTL
+const DEFAULT_MAX_MEMORY_ENTRIES = 5000;
+const DEFAULT_MAX_FILE_ENTRIES = 20000;
+const PRUNE_EVERY_WRITES = 100; // Listing the directory isn't free, so check the cap now and then
+
+export class MemoryCacheBackend implements CacheBackend {
+  // Map keeps insertion order, so the first key is always the least recently used
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries = DEFAULT_MAX_MEMORY_ENTRIES) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class FileCacheBackend implements CacheBackend {
+  private writesSincePrune = 0;
+
+  constructor(private directory: string, private maxEntries = DEFAULT_MAX_FILE_ENTRIES) {}
+
+  private filePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(raw) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      console.error('Cache write error:', error);
+    }
+    if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+      this.writesSincePrune = 0;
+      await this.prune().catch(error => console.error('Cache prune error:', error));
+    }
+  }
+
+  // Delete the least recently written files past maxEntries
+  private async prune(): Promise<void> {
+    const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.json'));
+    if (names.length <= this.maxEntries) return;
+
+    const files = await Promise.all(
+      names.map(async name => {
+        const file = path.join(this.directory, name);
+        const stat = await fs.stat(file).catch(() => undefined);
+        return { file, mtimeMs: stat?.mtimeMs ?? 0 };
+      })
+    );
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const { file } of files.slice(0, files.length - this.maxEntries)) {
+      await fs.rm(file, { force: true });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+function createDefaultBackend(): CacheBackend {
+  if (process.env.REVIEW_CACHE_BACKEND === 'file') {
+    const directory = process.env.REVIEW_CACHE_DIR || path.join(os.tmpdir(), 'where-should-i-eat-cache');
+    return new FileCacheBackend(directory);
+  }
+  return new MemoryCacheBackend();
+}
+
+let backend: CacheBackend = createDefaultBackend();
+
+// Refreshes currently running, so concurrent misses share one fetch
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Swap the cache backend (e.g. for a shared store)
+ */
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
+}
+
+function refresh<T>(key: string, fetcher: () => Promise<T>): Promise<CacheEntry<T>> {
+  const running = inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+  if (running) return running;
+
+  const promise = (async () => {
+    try {
+      const entry: CacheEntry<T> = { value: await fetcher(), fetchedAt: Date.now() };
+      await backend.set(key, entry);
+      return entry;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Return the cached value for `key`, calling `fetcher` when it's missing or expired.
+ * Stale entries are returned right away while a background refresh runs.
+ */
+export async function cached<T>(
+  key: string,
+  options: CacheOptions,
+  fetcher: () => Promise<T>
+): Promise<CachedResult<T>> {
+  const { ttlMs, staleMs = ttlMs * DEFAULT_STALE_FACTOR } = options;
+  const entry = await backend.get<T>(key);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry && age <= ttlMs) {
+    return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), stale: false };
+  }
+
+  if (entry && age <= ttlMs + staleMs) {
+    refresh(key, fetcher).catch(error => console.error(`Cache refresh failed for ${key}:`, error));
+    return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), stale: true };
+  }
+
+  const fresh = await refresh(key, fetcher);
+  return { value: fresh.value, fetchedAt: new Date(fresh.fetchedAt), stale: false };
+}
+
+/**
+ * Drop a cached entry
+ */
+export async function invalidate(key: string): Promise<void> {
+  await backend.delete(key);
+}
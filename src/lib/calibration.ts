@@ -0,0 +1,69 @@
+/**
+ * Per-platform rating calibration
+ *
+ * The same number means different things on different platforms: Google
+ * averages run high, Yelp moves in half stars and is harsher, OpenTable
+ * diners rarely give less than 4. Before aggregation each platform's rating
+ * is mapped to a common scale by percentile: a rating is placed in that
+ * platform's distribution, and replaced by the rating at the same percentile
+ * of the reference distribution.
+ *
+ * Distributions are cumulative curves - [rating, share of places at or below
+ * it] points, counting half of any ties so half-star plateaus land in the
+ * middle. The curves are rough defaults, not fitted to our own data.
+ */
+
+import { PlatformId, PlatformReview } from '@/types';
+
+export type CalibrationCurve = [rating: number, percentile: number][];
+
+// Common scale everything is mapped onto
+const REFERENCE_CURVE: CalibrationCurve = [
+  [1, 0], [3, 0.05], [3.5, 0.15], [4, 0.45], [4.5, 0.85], [5, 1],
+];
+
+const curves = new Map<string, CalibrationCurve>([
+  ['google', [[1, 0], [3.5, 0.04], [4, 0.15], [4.3, 0.4], [4.5, 0.62], [4.7, 0.85], [4.9, 0.97], [5, 1]]],
+  ['yelp', [[1, 0], [2.5, 0.03], [3, 0.08], [3.5, 0.25], [4, 0.6], [4.5, 0.9], [5, 1]]],
+  ['tripadvisor', [[1, 0], [3, 0.05], [3.5, 0.12], [4, 0.38], [4.5, 0.8], [5, 1]]],
+  ['foursquare', [[1, 0], [3, 0.05], [3.5, 0.15], [4, 0.42], [4.5, 0.82], [5, 1]]],
+  ['zomato', [[1, 0], [3, 0.1], [3.5, 0.3], [4, 0.7], [4.5, 0.93], [5, 1]]],
+  ['opentable', [[1, 0], [4, 0.1], [4.5, 0.45], [4.7, 0.7], [4.9, 0.95], [5, 1]]],
+]);
+
+/**
+ * Piecewise-linear lookup along a curve, from one axis to the other
+ */
+function interpolate(curve: CalibrationCurve, value: number, from: 0 | 1): number {
+  const to = from === 0 ? 1 : 0;
+  if (value <= curve[0][from]) return curve[0][to];
+  for (let i = 1; i < curve.length; i++) {
+    const [a, b] = [curve[i - 1], curve[i]];
+    if (value <= b[from]) {
+      const span = b[from] - a[from];
+      return span === 0 ? b[to] : a[to] + ((value - a[from]) / span) * (b[to] - a[to]);
+    }
+  }
+  return curve[curve.length - 1][to];
+}
+
+/**
+ * A platform's rating on the common scale. Platforms without a distribution pass through.
+ */
+export function calibrateRating(platform: PlatformId, rating: number): number {
+  const curve = curves.get(platform);
+  if (!curve) return rating;
+  const percentile = interpolate(curve, rating, 0);
+  return Math.round(interpolate(REFERENCE_CURVE, percentile, 1) * 100) / 100;
+}
+
+/**
+ * Calibrate reviews for aggregation, keeping the published rating as rawRating
+ */
+export function calibrateReviews(reviews: PlatformReview[]): PlatformReview[] {
+  return reviews.map(r => ({
+    ...r,
+    rating: calibrateRating(r.platform, r.rawRating ?? r.rating),
+    rawRating: r.rawRating ?? r.rating,
+  }));
+}
@@ -0,0 +1,344 @@
+/**
+ * Cuisine taxonomy
+ *
+ * One hierarchy (family → cuisine → speciality, e.g. asian → japanese → sushi)
+ * that Google place types, Yelp category aliases, Foursquare category IDs and
+ * free-text cuisine names (TripAdvisor, Zomato) all map onto. Filters match a
+ * node and everything beneath it, so excluding "asian" also drops sushi bars.
+ */
+
+import { PlatformReview, Restaurant } from '@/types';
+
+export interface CuisineNode {
+  id: string;
+  label: string;
+  parent?: string;
+}
+
+function node(id: string, label: string, parent?: string): [string, CuisineNode] {
+  return [id, { id, label, parent }];
+}
+
+export const CUISINES: Record<string, CuisineNode> = Object.fromEntries([
+  node('asian', 'Asian'),
+  node('chinese', 'Chinese', 'asian'),
+  node('dim_sum', 'Dim Sum', 'chinese'),
+  node('sichuan', 'Sichuan', 'chinese'),
+  node('japanese', 'Japanese', 'asian'),
+  node('sushi', 'Sushi', 'japanese'),
+  node('ramen', 'Ramen', 'japanese'),
+  node('korean', 'Korean', 'asian'),
+  node('thai', 'Thai', 'asian'),
+  node('vietnamese', 'Vietnamese', 'asian'),
+  node('indonesian', 'Indonesian', 'asian'),
+  node('indian', 'Indian', 'asian'),
+
+  node('european', 'European'),
+  node('italian', 'Italian', 'european'),
+  node('pizza', 'Pizza', 'italian'),
+  node('french', 'French', 'european'),
+  node('spanish', 'Spanish', 'european'),
+  node('tapas', 'Tapas', 'spanish'),
+  node('greek', 'Greek', 'european'),
+  node('mediterranean', 'Mediterranean', 'european'),
+  node('german', 'German', 'european'),
+  node('british', 'British', 'european'),
+
+  node('middle_eastern', 'Middle Eastern'),
+  node('lebanese', 'Lebanese', 'middle_eastern'),
+  node('turkish', 'Turkish', 'middle_eastern'),
+  node('persian', 'Persian', 'middle_eastern'),
+  node('falafel', 'Falafel', 'middle_eastern'),
+
+  node('african', 'African'),
+  node('ethiopian', 'Ethiopian', 'african'),
+  node('moroccan', 'Moroccan', 'african'),
+
+  node('latin_american', 'Latin American'),
+  node('mexican', 'Mexican', 'latin_american'),
+  node('tacos', 'Tacos', 'mexican'),
+  node('brazilian', 'Brazilian', 'latin_american'),
+  node('peruvian', 'Peruvian', 'latin_american'),
+  node('caribbean', 'Caribbean', 'latin_american'),
+
+  node('american', 'American'),
+  node('burgers', 'Burgers', 'american'),
+  node('bbq', 'BBQ', 'american'),
+  node('steakhouse', 'Steakhouse', 'american'),
+  node('southern', 'Southern', 'american'),
+  node('sandwiches', 'Sandwiches', 'american'),
+  node('breakfast', 'Breakfast & Brunch', 'american'),
+
+  node('seafood', 'Seafood'),
+  node('fast_food', 'Fast Food'),
+
+  node('cafe_bakery', 'Cafés & Bakeries'),
+  node('cafe', 'Café', 'cafe_bakery'),
+  node('bakery', 'Bakery', 'cafe_bakery'),
+  node('dessert', 'Dessert', 'cafe_bakery'),
+]);
+
+// Google Places types. The legacy Nearby/Text Search we call only returns
+// generic types (restaurant, food, cafe, bakery, meal_takeaway…), so just the
+// legacy cafe/bakery types carry cuisine there; the Places API (New) names are
+// kept for Place Details and a later move to the new API.
+const GOOGLE_TYPES: Record<string, string> = {
+  american_restaurant: 'american',
+  bakery: 'bakery',
+  barbecue_restaurant: 'bbq',
+  brazilian_restaurant: 'brazilian',
+  breakfast_restaurant: 'breakfast',
+  brunch_restaurant: 'breakfast',
+  cafe: 'cafe',
+  chinese_restaurant: 'chinese',
+  coffee_shop: 'cafe',
+  fast_food_restaurant: 'fast_food',
+  french_restaurant: 'french',
+  greek_restaurant: 'greek',
+  hamburger_restaurant: 'burgers',
+  ice_cream_shop: 'dessert',
+  indian_restaurant: 'indian',
+  indonesian_restaurant: 'indonesian',
+  italian_restaurant: 'italian',
+  japanese_restaurant: 'japanese',
+  korean_restaurant: 'korean',
+  lebanese_restaurant: 'lebanese',
+  mediterranean_restaurant: 'mediterranean',
+  mexican_restaurant: 'mexican',
+  middle_eastern_restaurant: 'middle_eastern',
+  pizza_restaurant: 'pizza',
+  ramen_restaurant: 'ramen',
+  sandwich_shop: 'sandwiches',
+  seafood_restaurant: 'seafood',
+  spanish_restaurant: 'spanish',
+  steak_house: 'steakhouse',
+  sushi_restaurant: 'sushi',
+  thai_restaurant: 'thai',
+  turkish_restaurant: 'turkish',
+  vietnamese_restaurant: 'vietnamese',
+};
+
+// Yelp category aliases
+const YELP_ALIASES: Record<string, string> = {
+  chinese: 'chinese',
+  dimsum: 'dim_sum',
+  szechuan: 'sichuan',
+  cantonese: 'chinese',
+  japanese: 'japanese',
+  sushi: 'sushi',
+  ramen: 'ramen',
+  korean: 'korean',
+  thai: 'thai',
+  vietnamese: 'vietnamese',
+  indonesian: 'indonesian',
+  indpak: 'indian',
+  asianfusion: 'asian',
+  italian: 'italian',
+  pizza: 'pizza',
+  french: 'french',
+  spanish: 'spanish',
+  tapas: 'tapas',
+  tapasmallplates: 'tapas',
+  greek: 'greek',
+  mediterranean: 'mediterranean',
+  german: 'german',
+  british: 'british',
+  mideastern: 'middle_eastern',
+  lebanese: 'lebanese',
+  turkish: 'turkish',
+  persian: 'persian',
+  falafel: 'falafel',
+  ethiopian: 'ethiopian',
+  moroccan: 'moroccan',
+  african: 'african',
+  mexican: 'mexican',
+  tacos: 'tacos',
+  'tex-mex': 'mexican',
+  latin: 'latin_american',
+  brazilian: 'brazilian',
+  peruvian: 'peruvian',
+  caribbean: 'caribbean',
+  newamerican: 'american',
+  tradamerican: 'american',
+  burgers: 'burgers',
+  bbq: 'bbq',
+  steak: 'steakhouse',
+  southern: 'southern',
+  sandwiches: 'sandwiches',
+  breakfast_brunch: 'breakfast',
+  seafood: 'seafood',
+  hotdogs: 'fast_food',
+  cafes: 'cafe',
+  coffee: 'cafe',
+  bakeries: 'bakery',
+  desserts: 'dessert',
+  icecream: 'dessert',
+};
+
+// Foursquare category IDs (Dining and Drinking > Restaurant subtree)
+const FOURSQUARE_CATEGORIES: Record<string, string> = {
+  '13002': 'bakery',
+  '13026': 'bbq',
+  '13031': 'burgers',
+  '13034': 'cafe',
+  '13035': 'cafe',
+  '13040': 'dessert',
+  '13064': 'pizza',
+  '13068': 'american',
+  '13099': 'chinese',
+  '13145': 'fast_food',
+  '13148': 'french',
+  '13177': 'greek',
+  '13199': 'indian',
+  '13236': 'italian',
+  '13263': 'japanese',
+  '13272': 'ramen',
+  '13276': 'sushi',
+  '13289': 'korean',
+  '13302': 'mediterranean',
+  '13303': 'mexican',
+  '13309': 'middle_eastern',
+  '13338': 'seafood',
+  '13352': 'thai',
+  '13358': 'vietnamese',
+  '13383': 'steakhouse',
+};
+
+// Longest labels first so "Middle Eastern" wins over a shorter match
+const LABEL_INDEX = Object.values(CUISINES)
+  .map(c => ({ id: c.id, label: c.label.toLowerCase() }))
+  .sort((a, b) => b.label.length - a.label.length);
+
+// Own keys only, so "constructor" or "__proto__" aren't cuisines
+export function isCuisine(id: string): boolean {
+  return typeof id === 'string' && Object.hasOwn(CUISINES, id);
+}
+
+export function cuisineLabel(id: string): string {
+  return CUISINES[id]?.label ?? id;
+}
+
+/**
+ * The node and every ancestor up to its family, most specific first
+ */
+export function cuisineAncestors(id: string): string[] {
+  const chain: string[] = [];
+  for (let current: CuisineNode | undefined = CUISINES[id]; current; current = current.parent ? CUISINES[current.parent] : undefined) {
+    chain.push(current.id);
+  }
+  return chain;
+}
+
+/**
+ * Top-level family of a cuisine ("sushi" → "asian")
+ */
+export function cuisineFamily(id: string): string {
+  const chain = cuisineAncestors(id);
+  return chain[chain.length - 1] ?? id;
+}
+
+export function cuisineFromGoogleType(type: string): string | undefined {
+  return GOOGLE_TYPES[type];
+}
+
+export function cuisineFromYelpAlias(alias: string): string | undefined {
+  return YELP_ALIASES[alias];
+}
+
+export function cuisineFromFoursquareId(id: string | number): string | undefined {
+  return FOURSQUARE_CATEGORIES[id.toString()];
+}
+
+/**
+ * Map a free-text cuisine name ("North Indian", "Sushi Bar") onto the taxonomy
+ */
+export function cuisineFromLabel(name: string): string | undefined {
+  const normalized = name.toLowerCase().replace(/_/g, ' ').trim();
+  return (
+    LABEL_INDEX.find(c => c.label === normalized)?.id ??
+    LABEL_INDEX.find(c => new RegExp(`\\b${c.label.replace(/[^a-z ]/g, '.')}\\b`).test(normalized))?.id
+  );
+}
+
+/**
+ * Cuisines for a restaurant from its Google types, the normalized cuisines
+ * providers reported and its name ("Joe's Pizza", "Bangkok Thai Kitchen"),
+ * ordered by how many sources agree (then most specific). The name matters
+ * for Google-only places, whose legacy types rarely say anything about cuisine.
+ */
+export function resolveCuisines(
+  googleTypes: string[] | undefined,
+  reviews: PlatformReview[],
+  name?: string
+): string[] {
+  const votes = new Map<string, number>();
+  const candidates = [
+    ...(googleTypes ?? []).map(cuisineFromGoogleType),
+    ...reviews.flatMap(r => r.cuisines ?? []),
+    name ? cuisineFromLabel(name) : undefined,
+  ];
+  for (const id of candidates) {
+    if (id && isCuisine(id)) votes.set(id, (votes.get(id) ?? 0) + 1);
+  }
+
+  return [...votes.entries()]
+    .sort(([a, votesA], [b, votesB]) =>
+      votesB - votesA || cuisineAncestors(b).length - cuisineAncestors(a).length
+    )
+    .map(([id]) => id);
+}
+
+/**
+ * Whether any of the restaurant's cuisines is `filterId` or falls beneath it
+ */
+export function matchesCuisine(cuisineIds: string[] | undefined, filterId: string): boolean {
+  return (cuisineIds ?? []).some(id => cuisineAncestors(id).includes(filterId));
+}
+
+/**
+ * Include/exclude filter. With an include list, places of unknown cuisine are
+ * dropped, unless they came back from a search for the wanted cuisine.
+ *
+ * @param keywordMatched the place came back from a search that included the wanted cuisine as a keyword
+ */
+export function passesCuisineFilter(
+  restaurant: Restaurant,
+  filter: { include?: string[]; exclude?: string[] },
+  keywordMatched: boolean = false
+): boolean {
+  const { include = [], exclude = [] } = filter;
+  if (exclude.some(id => matchesCuisine(restaurant.cuisineIds, id))) return false;
+  if (include.length === 0) return true;
+  if (keywordMatched && !restaurant.cuisineIds?.length) return true;
+  return include.some(id => matchesCuisine(restaurant.cuisineIds, id));
+}
+
+/**
+ * "Surprise me": skip the families the diner has eaten recently, then
+ * interleave so consecutive picks come from different families.
+ * Input order (best first) is kept within each family.
+ */
+export function surpriseOrder(restaurants: Restaurant[], recentCuisines: string[] = []): Restaurant[] {
+  const recentFamilies = new Set(recentCuisines.filter(isCuisine).map(cuisineFamily));
+  const familyOf = (r: Restaurant) => (r.cuisineIds?.[0] ? cuisineFamily(r.cuisineIds[0]) : 'unknown');
+
+  const fresh = restaurants.filter(r => !recentFamilies.has(familyOf(r)));
+  // If everything nearby is "recent", still surprise within what there is
+  const pool = fresh.length > 0 ? fresh : restaurants;
+
+  const byFamily = new Map<string, Restaurant[]>();
+  for (const restaurant of pool) {
+    const family = familyOf(restaurant);
+    byFamily.set(family, [...(byFamily.get(family) ?? []), restaurant]);
+  }
+
+  const ordered: Restaurant[] = [];
+  const queues = [...byFamily.values()];
+  while (queues.some(q => q.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) ordered.push(next);
+    }
+  }
+  return ordered;
+}
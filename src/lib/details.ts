@@ -0,0 +1,129 @@
+/**
+ * Restaurant details
+ *
+ * Everything we know about one place, for the detail page: Google Place
+ * Details (hours, phone, website, photos, newest reviews) merged with every
+ * registered review provider, scored the same way search scores it.
+ *
+ * The merged provider data is cached per place for a while; scoring, rating
+ * history and open status are worked out fresh on every request.
+ */
+
+import { fetchAllPlatformReviews, withRecentReviews } from '@/lib/apis';
+import { cached } from '@/lib/cache';
+import { calculateCredibleInterval, explainAggregatedScore, explainConfidence } from '@/lib/scoring';
+import { calibrateReviews } from '@/lib/calibration';
+import { detectTrend } from '@/lib/recency';
+import { detectRatingDrops, getRatingHistory, hasPersistentHistory, recordSnapshots } from '@/lib/history';
+import { detectAnomalies } from '@/lib/anomaly';
+import { analyzeReviews } from '@/lib/sentiment';
+import { cuisineLabel, resolveCuisines } from '@/lib/cuisine';
+import { getPlaceDetails, getPhotoUrl, PlaceDetails } from '@/lib/places';
+import { formatOpenUntil, getOpenStatus, parseGooglePeriods } from '@/lib/hours';
+import { resolveTimeZone } from '@/lib/timezone';
+import { PlatformReview, Restaurant, WeightingConfig } from '@/types';
+
+const DETAILS_CACHE = { ttlMs: 30 * 60 * 1000 };
+const MAX_PHOTOS = 8;
+const PHOTO_WIDTH = 800;
+
+const DEFAULT_WEIGHTING: WeightingConfig = {
+  strategy: 'bayesian_average',
+  bayesianPrior: 3.5,
+  bayesianMinReviews: 10,
+};
+
+interface MergedPlace {
+  details: PlaceDetails;
+  reviews: PlatformReview[]; // As published, before calibration
+  timeZone?: string;
+}
+
+async function fetchMergedPlace(placeId: string, details: PlaceDetails): Promise<MergedPlace> {
+  const googleReview: PlatformReview = {
+    platform: 'google',
+    rating: details.rating || 0,
+    reviewCount: details.userRatingsTotal || 0,
+    url: details.googleUrl,
+    lastUpdated: details.fetchedAt,
+    recentReviews: details.reviews,
+  };
+  const additionalReviews = await fetchAllPlatformReviews({
+    placeId,
+    name: details.name,
+    location: details.address,
+    latitude: details.latitude,
+    longitude: details.longitude,
+  });
+
+  const timeZone = await resolveTimeZone({ latitude: details.latitude, longitude: details.longitude });
+  const reviews = [googleReview, ...additionalReviews].filter(r => r.rating > 0);
+
+  return {
+    details,
+    reviews: await withRecentReviews(reviews, placeId),
+    timeZone,
+  };
+}
+
+/**
+ * Full details for a Google place id, or undefined if Google doesn't know it
+ */
+export async function getRestaurantDetails(
+  placeId: string,
+  config: WeightingConfig = DEFAULT_WEIGHTING
+): Promise<{ restaurant: Restaurant; fetchedAt: Date } | undefined> {
+  // Unknown ids stop here, so a miss never sits in the merged cache
+  const placeDetails = await getPlaceDetails(placeId);
+  if (!placeDetails) return undefined;
+
+  const { value, fetchedAt } = await cached(`restaurant:details:${placeId}`, DETAILS_CACHE, () =>
+    fetchMergedPlace(placeId, placeDetails)
+  );
+  const { details, reviews: foundReviews, timeZone: zone } = value;
+
+  const reviews = config.calibrate === false ? foundReviews : calibrateReviews(foundReviews);
+  await recordSnapshots(placeId, foundReviews);
+  const snapshots = await getRatingHistory(placeId);
+  const ratingDrops = detectRatingDrops(snapshots);
+  const anomalies = detectAnomalies(reviews, hasPersistentHistory() ? snapshots : []);
+
+  const aggregate = explainAggregatedScore(reviews, config, anomalies);
+  const confidence = explainConfidence(reviews);
+  const cuisineIds = resolveCuisines(details.types, reviews, details.name);
+  const photoUrls = (details.photos ?? []).slice(0, MAX_PHOTOS).map(ref => getPhotoUrl(ref, PHOTO_WIDTH));
+
+  // Open status on the restaurant's own clock
+  const status = getOpenStatus(parseGooglePeriods(details.openingHours), new Date(), zone);
+
+  const restaurant: Restaurant = {
+    id: placeId,
+    name: details.name,
+    address: details.address,
+    latitude: details.latitude,
+    longitude: details.longitude,
+    priceLevel: details.priceLevel ? '$'.repeat(details.priceLevel) : undefined,
+    reviews,
+    aggregatedScore: aggregate.score,
+    confidence: confidence.score,
+    ratingInterval: calculateCredibleInterval(reviews),
+    trend: detectTrend(reviews, config.recentWindowDays),
+    ratingDrops: ratingDrops.length > 0 ? ratingDrops : undefined,
+    anomalies: anomalies.length > 0 ? anomalies : undefined,
+    aspects: analyzeReviews(reviews),
+    hours: details.weekdayHours,
+    isOpenNow: status.unknown ? details.openNow : status.isOpen,
+    openUntil: formatOpenUntil(status, zone),
+    phoneNumber: details.phoneNumber,
+    website: details.website,
+    googleMapsUrl: details.googleUrl ?? `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+    cuisine: cuisineIds.length > 0 ? cuisineLabel(cuisineIds[0]) : undefined,
+    cuisineIds,
+    photoUrl: photoUrls[0],
+    photoUrls: photoUrls.length > 0 ? photoUrls : undefined,
+    types: details.types,
+    explanation: { aggregate, confidence },
+  };
+
+  return { restaurant, fetchedAt };
+}
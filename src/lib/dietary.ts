@@ -0,0 +1,194 @@
+/**
+ * Dietary and allergen matching
+ *
+ * Nobody gives us a reliable "is this place vegan?" flag, so we infer it
+ * from the signals we do have: provider categories and attributes (Yelp
+ * category aliases, Foursquare categories, TripAdvisor dietary restrictions,
+ * Zomato cuisines), Google types, the restaurant's name, review text and
+ * its cuisine. Each need gets a 0-1 match confidence.
+ *
+ * Halal, kosher and gluten-free are strict: someone asking for them can't
+ * eat a guess, so the cuisine alone never clears the threshold for them.
+ */
+
+import { DietaryNeed, Restaurant } from '@/types';
+
+interface DietarySignals {
+  label: string;
+  keyword: string; // Pushed into the Google Places search query
+  categories: string[]; // Provider categories that explicitly cater to the need
+  nameTerms: string[]; // Words in a restaurant's name that strongly suggest it
+  friendlyCuisines: string[]; // Cuisines that usually have good options
+  conflicting: string[]; // Categories that make a match unlikely
+  strict: boolean; // Needs a provider category, the name or review text; the cuisine isn't enough
+}
+
+export const DIETARY_SIGNALS: Record<DietaryNeed, DietarySignals> = {
+  vegetarian: {
+    label: 'Vegetarian',
+    keyword: 'vegetarian',
+    categories: ['vegetarian', 'vegan', 'vegetarian friendly', 'vegan options', 'vegetarian restaurant', 'vegan and vegetarian restaurant'],
+    nameTerms: ['vegetarian', 'veggie', 'vegan', 'plant based', 'plant-based'],
+    friendlyCuisines: ['indian', 'ethiopian', 'falafel', 'middle eastern', 'mediterranean', 'thai'],
+    conflicting: ['steakhouse', 'steakhouses', 'bbq', 'barbeque', 'barbecue', 'butcher'],
+    strict: false,
+  },
+  vegan: {
+    label: 'Vegan',
+    keyword: 'vegan',
+    categories: ['vegan', 'vegan options', 'vegan and vegetarian restaurant'],
+    nameTerms: ['vegan', 'plant based', 'plant-based'],
+    friendlyCuisines: ['ethiopian', 'falafel'],
+    conflicting: ['steakhouse', 'steakhouses', 'bbq', 'barbeque', 'barbecue', 'butcher', 'cheese shops'],
+    strict: false,
+  },
+  gluten_free: {
+    label: 'Gluten-free',
+    keyword: 'gluten free',
+    categories: ['gluten free', 'gluten free options', 'gluten-free', 'gluten-free restaurant'],
+    nameTerms: ['gluten free', 'gluten-free', 'celiac'],
+    friendlyCuisines: ['vietnamese', 'thai'],
+    conflicting: ['bakeries', 'bakery', 'bagels'],
+    strict: true,
+  },
+  halal: {
+    label: 'Halal',
+    keyword: 'halal',
+    categories: ['halal', 'halal options', 'halal restaurant'],
+    nameTerms: ['halal'],
+    friendlyCuisines: ['middle eastern', 'pakistani', 'turkish', 'afghan', 'lebanese', 'persian', 'malaysian'],
+    conflicting: ['bbq', 'barbeque', 'pubs', 'wine bars', 'beer bar'],
+    strict: true,
+  },
+  kosher: {
+    label: 'Kosher',
+    keyword: 'kosher',
+    categories: ['kosher', 'kosher restaurant'],
+    nameTerms: ['kosher'],
+    friendlyCuisines: ['israeli', 'jewish'],
+    conflicting: ['seafood', 'bbq', 'barbeque'],
+    strict: true,
+  },
+};
+
+export const DIETARY_NEEDS = Object.keys(DIETARY_SIGNALS) as DietaryNeed[];
+
+// Results below this are dropped when the user asked for the need. A keyword
+// hit alone (0.3) doesn't clear it: Google matches the keyword anywhere in a
+// place's reviews ("no vegan options"), so it takes a name, review text or
+// provider category signal as well (or a cuisine, for needs that aren't strict).
+export const DIETARY_MIN_CONFIDENCE = 0.4;
+
+// What a friendly cuisine is worth: enough on its own for vegetarian and
+// vegan, strictly below the threshold for strict needs
+const FRIENDLY_CUISINE_CONFIDENCE = 0.4;
+const STRICT_FRIENDLY_CUISINE_CONFIDENCE = 0.3;
+// A reviewer saying so ("the lamb is halal"), unless negated ("not halal")
+const REVIEW_MENTION_CONFIDENCE = 0.6;
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'isnt', 'arent', 'wasnt', 'dont', 'doesnt', 'cant', 'cannot']);
+const NEGATION_REACH = 3; // Words before a mention that can negate it
+
+function normalize(term: string): string {
+  return term.toLowerCase().replace(/_/g, ' ').trim();
+}
+
+/**
+ * Whether any review excerpt mentions one of `terms` without negating it
+ */
+function mentionedInReviews(restaurant: Restaurant, terms: string[]): boolean {
+  const texts = restaurant.reviews.flatMap(r => r.recentReviews ?? []).map(s => s.text ?? '');
+  return texts.some(text => {
+    const words = text.toLowerCase().replace(/[’']/g, '').split(/[^a-z-]+/).filter(Boolean);
+    const joined = ` ${words.join(' ')} `;
+    return terms.some(term => {
+      let from = joined.indexOf(` ${term} `);
+      while (from !== -1) {
+        const before = joined.slice(0, from).trim().split(' ').slice(-NEGATION_REACH);
+        if (!before.some(w => NEGATIONS.has(w))) return true;
+        from = joined.indexOf(` ${term} `, from + 1);
+      }
+      return false;
+    });
+  });
+}
+
+/**
+ * Search keyword for a set of needs ("vegan halal"), or undefined
+ */
+export function dietaryKeyword(needs: DietaryNeed[] | undefined): string | undefined {
+  if (!needs || needs.length === 0) return undefined;
+  return needs.map(n => DIETARY_SIGNALS[n].keyword).join(' ');
+}
+
+/**
+ * How confident we are that `restaurant` can serve `need`
+ *
+ * @param keywordMatched the place came back from a search that included the need's keyword
+ */
+export function dietaryMatchConfidence(
+  restaurant: Restaurant,
+  need: DietaryNeed,
+  keywordMatched: boolean = false
+): number {
+  const signals = DIETARY_SIGNALS[need];
+
+  // Platforms that explicitly list a catering category
+  const platformsWithCategory = restaurant.reviews.filter(r =>
+    (r.categories ?? []).some(c => signals.categories.includes(normalize(c)))
+  ).length;
+  const googleTypes = (restaurant.types ?? []).map(normalize);
+  const allCategories = [
+    ...restaurant.reviews.flatMap(r => r.categories ?? []).map(normalize),
+    ...googleTypes,
+  ];
+  const name = restaurant.name.toLowerCase();
+  const cuisine = (restaurant.cuisine ?? '').toLowerCase();
+
+  let confidence = 0.1; // No evidence either way
+
+  if (keywordMatched) confidence = Math.max(confidence, 0.3);
+  if (signals.friendlyCuisines.some(c => cuisine.includes(c) || allCategories.includes(c))) {
+    confidence = Math.max(
+      confidence,
+      signals.strict ? STRICT_FRIENDLY_CUISINE_CONFIDENCE : FRIENDLY_CUISINE_CONFIDENCE
+    );
+  }
+  if (mentionedInReviews(restaurant, signals.nameTerms)) {
+    confidence = Math.max(confidence, REVIEW_MENTION_CONFIDENCE);
+  }
+  if (signals.nameTerms.some(t => name.includes(t))) {
+    confidence = Math.max(confidence, 0.7);
+  }
+  if (platformsWithCategory > 0) {
+    confidence = Math.max(confidence, Math.min(1, 0.8 + 0.1 * (platformsWithCategory - 1)));
+  }
+
+  // A steakhouse with no positive evidence is almost certainly not vegan
+  const conflicts = signals.conflicting.some(c => allCategories.includes(c) || cuisine.includes(c));
+  if (conflicts && platformsWithCategory === 0) {
+    confidence = Math.min(confidence, 0.05);
+  }
+
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Per-need confidences for a restaurant
+ */
+export function assessDietaryMatch(
+  restaurant: Restaurant,
+  needs: DietaryNeed[],
+  keywordMatched: boolean = false
+): Partial<Record<DietaryNeed, number>> {
+  return Object.fromEntries(
+    needs.map(need => [need, dietaryMatchConfidence(restaurant, need, keywordMatched)])
+  );
+}
+
+/**
+ * Whether every requested need clears DIETARY_MIN_CONFIDENCE
+ */
+export function meetsDietaryNeeds(restaurant: Restaurant): boolean {
+  return Object.values(restaurant.dietaryMatch ?? {}).every(c => c >= DIETARY_MIN_CONFIDENCE);
+}
@@ -86,6 +86,23 @@ export function estimateDriveTime(distanceKm: number): number {
   return Math.round((distanceKm / driveSpeedKmH) * 60);
 }
 
+/**
+ * Estimate cycling time in minutes (avg 15 km/h)
+ */
+export function estimateBikeTime(distanceKm: number): number {
+  const bikeSpeedKmH = 15;
+  return Math.round((distanceKm / bikeSpeedKmH) * 60);
+}
+
+/**
+ * Estimate transit time in minutes (avg 18 km/h plus ~8 min walking and waiting)
+ */
+export function estimateTransitTime(distanceKm: number): number {
+  const transitSpeedKmH = 18;
+  const accessMin = 8;
+  return Math.round((distanceKm / transitSpeedKmH) * 60) + accessMin;
+}
+
 /**
  * Legacy function - returns drive time for backwards compatibility
  */
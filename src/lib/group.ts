@@ -0,0 +1,438 @@
+/**
+ * Group decision sessions
+ *
+ * A session collects members (each with their own location, travel mode and
+ * limits), finds places every member can reach, ranks them by a fair group
+ * travel time - the slowest member's trip - and tallies yes/no votes until
+ * one place gets a yes from everyone.
+ *
+ * The share link has to work on whichever instance serves it, so sessions
+ * need a store shared between instances:
+ * - memory (default): per-process, lost on cold start; fine for `next dev`
+ * - file: one JSON file per session under GROUP_STORE_DIR, which must be a
+ *   volume every instance sees
+ *
+ * Select with GROUP_STORE_BACKEND=memory|file, or swap in another store
+ * with setGroupStore.
+ *
+ * Joins and votes go through updateGroupSession, which applies one change at
+ * a time per session so concurrent requests can't overwrite each other.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileCacheBackend } from '@/lib/cache';
+import { fetchAllPlatformReviews } from '@/lib/apis';
+import { calculateAggregatedScore, calculateConfidence } from '@/lib/scoring';
+import { calibrateReviews } from '@/lib/calibration';
+import { getRatingHistory, hasPersistentHistory, recordSnapshots } from '@/lib/history';
+import { detectAnomalies } from '@/lib/anomaly';
+import { getTravelTimeMatrix, pickTravelTime, TRAVEL_MODES } from '@/lib/routing';
+import { calculateValueScore, isExceptionalRestaurant } from '@/lib/ranking';
+import { searchNearbyPlaces, isOpenDuring } from '@/lib/places';
+import { resolvePlannedWindow, DEFAULT_DINING_DURATION_MIN } from '@/lib/planning';
+import { assessDietaryMatch, dietaryKeyword, meetsDietaryNeeds, DIETARY_NEEDS } from '@/lib/dietary';
+import { cuisineLabel, resolveCuisines } from '@/lib/cuisine';
+import { fairTravelTime, meetingArea } from '@/lib/meeting';
+import {
+  DietaryNeed,
+  GroupCandidate,
+  GroupMember,
+  GroupSession,
+  GroupVote,
+  PlatformReview,
+  PublicGroupSession,
+  Restaurant,
+  TravelModePreference,
+  WeightingConfig,
+} from '@/types';
+
+export interface GroupStore {
+  get(id: string): Promise<GroupSession | undefined>;
+  save(session: GroupSession): Promise<void>;
+  // Apply `change` to the latest copy with no other update to that session in between
+  update(id: string, change: (session: GroupSession) => GroupSession): Promise<GroupSession | undefined>;
+}
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // Lunch decisions don't outlive the day
+const MAX_CANDIDATES = 10;
+
+// File store locks: wait this long for another update to finish, and treat a
+// lock older than LOCK_STALE_MS as left behind by a crashed instance
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30 * 1000;
+const LOCK_RETRY_MS = 20;
+
+const GROUP_WEIGHTING: WeightingConfig = {
+  strategy: 'bayesian_average',
+  bayesianPrior: 3.5,
+  bayesianMinReviews: 10,
+};
+
+function isExpired(session: GroupSession): boolean {
+  return Date.now() - new Date(session.createdAt).getTime() > SESSION_TTL_MS;
+}
+
+export class MemoryGroupStore implements GroupStore {
+  private sessions = new Map<string, GroupSession>();
+
+  async get(id: string): Promise<GroupSession | undefined> {
+    return this.current(id);
+  }
+
+  async save(session: GroupSession): Promise<void> {
+    // Drop expired sessions as new ones come in, so memory doesn't grow forever
+    for (const [id, existing] of this.sessions) {
+      if (isExpired(existing)) this.sessions.delete(id);
+    }
+    this.sessions.set(session.id, session);
+  }
+
+  // No await between reading and writing, so nothing can interleave
+  async update(id: string, change: (session: GroupSession) => GroupSession): Promise<GroupSession | undefined> {
+    const session = this.current(id);
+    if (!session) return undefined;
+    const next = change(session);
+    this.sessions.set(id, next);
+    return next;
+  }
+
+  private current(id: string): GroupSession | undefined {
+    const session = this.sessions.get(id);
+    if (session && isExpired(session)) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return session;
+  }
+}
+
+export class FileGroupStore implements GroupStore {
+  private files: FileCacheBackend;
+
+  constructor(private directory: string) {
+    this.files = new FileCacheBackend(directory);
+  }
+
+  async get(id: string): Promise<GroupSession | undefined> {
+    const session = (await this.files.get<GroupSession>(`group:${id}`))?.value;
+    if (session && isExpired(session)) {
+      await this.files.delete(`group:${id}`);
+      return undefined;
+    }
+    return session;
+  }
+
+  async save(session: GroupSession): Promise<void> {
+    await this.files.set(`group:${session.id}`, { value: session, fetchedAt: Date.now() });
+  }
+
+  async update(id: string, change: (session: GroupSession) => GroupSession): Promise<GroupSession | undefined> {
+    const release = await this.lock(id);
+    try {
+      const session = await this.get(id);
+      if (!session) return undefined;
+      const next = change(session);
+      await this.save(next);
+      return next;
+    } finally {
+      await release();
+    }
+  }
+
+  // A lock file created with O_EXCL is visible to every instance sharing the directory
+  private async lock(id: string): Promise<() => Promise<void>> {
+    const hash = createHash('sha1').update(`group:${id}`).digest('hex');
+    const lockPath = path.join(this.directory, `${hash}.lock`);
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, String(Date.now()), { flag: 'wx' });
+        return () => fs.rm(lockPath, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+      const held = await fs.stat(lockPath).catch(() => undefined);
+      if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error('Session is busy, try again');
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
+
+function createDefaultStore(): GroupStore {
+  if (process.env.GROUP_STORE_BACKEND === 'file') {
+    const directory = process.env.GROUP_STORE_DIR || path.join(os.tmpdir(), 'where-should-i-eat-groups');
+    return new FileGroupStore(directory);
+  }
+  return new MemoryGroupStore();
+}
+
+let store: GroupStore = createDefaultStore();
+
+/**
+ * Swap the session store (e.g. for one shared between server instances)
+ */
+export function setGroupStore(next: GroupStore): void {
+  store = next;
+}
+
+export async function getGroupSession(id: string): Promise<GroupSession | undefined> {
+  return store.get(id);
+}
+
+/**
+ * Read, change and save a session as one step. Undefined if it's gone;
+ * errors thrown by `change` leave the session as it was.
+ */
+export async function updateGroupSession(
+  id: string,
+  change: (session: GroupSession) => GroupSession
+): Promise<GroupSession | undefined> {
+  return store.update(id, change);
+}
+
+/**
+ * A session as sent to anyone with the link: members without their coordinates or tokens
+ */
+export function toPublicSession(session: GroupSession): PublicGroupSession {
+  return {
+    ...session,
+    members: session.members.map(({ id, name, travelMode, maxTravelTimeMin, dietary }) => ({
+      id,
+      name,
+      travelMode,
+      maxTravelTimeMin,
+      dietary,
+    })),
+  };
+}
+
+/**
+ * Start a session. Throws if the planned time can't be understood.
+ */
+export async function createGroupSession(options: {
+  name?: string;
+  plannedTime?: GroupSession['plannedTime'];
+  timeZone?: string;
+}): Promise<GroupSession> {
+  if (!resolvePlannedWindow(options.plannedTime, options.timeZone)) {
+    throw new Error(`Could not understand planned time: ${JSON.stringify(options.plannedTime)}`);
+  }
+
+  const session: GroupSession = {
+    id: randomUUID(),
+    name: options.name,
+    createdAt: new Date().toISOString(),
+    plannedTime: options.plannedTime,
+    timeZone: options.timeZone,
+    members: [],
+    candidates: [],
+    votes: {},
+  };
+  await store.save(session);
+  return session;
+}
+
+/**
+ * Validate a join request into a member. Throws with a user-facing message.
+ * The member's token is only ever returned to the caller who joined.
+ */
+export function createMember(input: {
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+  travelMode?: string;
+  maxTravelTimeMin?: number;
+  dietary?: string[];
+}): GroupMember {
+  const { name, latitude, longitude, travelMode = 'drive', maxTravelTimeMin = 20, dietary = [] } = input;
+
+  if (!name || !name.trim()) throw new Error('Name is required');
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('Location is required to join');
+  }
+  if (![...TRAVEL_MODES, 'best'].includes(travelMode)) {
+    throw new Error(`Unknown travel mode: ${travelMode}`);
+  }
+  // The group limit is the smallest of these, so one bad value would empty the shortlist
+  if (typeof maxTravelTimeMin !== 'number' || !Number.isFinite(maxTravelTimeMin) || maxTravelTimeMin <= 0) {
+    throw new Error('Max travel time must be a positive number of minutes');
+  }
+  if (!Array.isArray(dietary) || dietary.some(n => typeof n !== 'string')) {
+    throw new Error('Dietary needs must be a list of strings');
+  }
+  const unknownNeeds = dietary.filter(n => !(DIETARY_NEEDS as string[]).includes(n));
+  if (unknownNeeds.length > 0) {
+    throw new Error(`Unknown dietary need: ${unknownNeeds.join(', ')}`);
+  }
+
+  return {
+    id: randomUUID(),
+    name: name.trim(),
+    latitude,
+    longitude,
+    travelMode: travelMode as TravelModePreference,
+    maxTravelTimeMin,
+    dietary: dietary as DietaryNeed[],
+    token: randomBytes(32).toString('hex'),
+  };
+}
+
+/**
+ * The member a token belongs to, if any
+ */
+export function memberForToken(session: GroupSession, token: unknown): GroupMember | undefined {
+  if (typeof token !== 'string' || !token) return undefined;
+  return session.members.find(m => m.token === token);
+}
+
+/**
+ * Find places every member can reach within their own limit, ranked by
+ * rating against the group travel time
+ */
+export async function findGroupCandidates(session: GroupSession): Promise<GroupCandidate[]> {
+  const { members } = session;
+  if (members.length === 0) return [];
+
+  const window = resolvePlannedWindow(session.plannedTime, session.timeZone)!;
+
+  // Search around the members' midpoint, out to the edge of the area they can all reach
+  const { center, radiusMeters } = meetingArea(members);
+
+  const dietaryNeeds = [...new Set(members.flatMap(m => m.dietary ?? []))];
+  const dietaryTerms = dietaryKeyword(dietaryNeeds);
+
+  const places = await searchNearbyPlaces({
+    latitude: center.latitude,
+    longitude: center.longitude,
+    radius: radiusMeters,
+    keyword: dietaryTerms,
+    openNow: window.isNow,
+  });
+
+  const topPlaces = places
+    .filter(p => (p.rating || 0) >= 4.0)
+    .filter(p => isOpenDuring(p.openingHours, window.start, window.end, DEFAULT_DINING_DURATION_MIN, session.timeZone))
+    .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+    .slice(0, 20);
+
+  // One travel time batch per member
+  const destinations = topPlaces.map(p => ({ latitude: p.latitude, longitude: p.longitude }));
+  const memberTimes = await Promise.all(
+    members.map(m => getTravelTimeMatrix({ latitude: m.latitude, longitude: m.longitude }, destinations))
+  );
+
+  const reachable = topPlaces
+    .map((place, index) => {
+      const times: Record<string, number> = {};
+      members.forEach((m, i) => {
+        times[m.id] = pickTravelTime(memberTimes[i][index], m.travelMode).minutes;
+      });
+      return { place, times };
+    })
+    .filter(({ times }) => members.every(m => times[m.id] <= m.maxTravelTimeMin));
+
+  // The tightest limit in the group sets the scale for the value score
+  const groupLimit = Math.min(...members.map(m => m.maxTravelTimeMin));
+
+  const candidates = await Promise.all(
+    reachable.map(async ({ place, times }): Promise<GroupCandidate> => {
+      const googleReview: PlatformReview = {
+        platform: 'google',
+        rating: place.rating || 0,
+        reviewCount: place.userRatingsTotal || 0,
+        lastUpdated: place.fetchedAt,
+      };
+      const additionalReviews = await fetchAllPlatformReviews({
+        placeId: place.placeId,
+        name: place.name,
+        location: place.address,
+        latitude: place.latitude,
+        longitude: place.longitude,
+      });
+      const foundReviews = [googleReview, ...additionalReviews].filter(r => r.rating > 0);
+      await recordSnapshots(place.placeId, foundReviews);
+      const reviews = calibrateReviews(foundReviews);
+      const snapshots = hasPersistentHistory() ? await getRatingHistory(place.placeId) : [];
+      const anomalies = detectAnomalies(reviews, snapshots);
+      const cuisineIds = resolveCuisines(place.types, reviews, place.name);
+      const groupTime = fairTravelTime(Object.values(times), 'min_max');
+
+      const restaurant: Restaurant = {
+        id: place.placeId,
+        name: place.name,
+        address: place.address,
+        latitude: place.latitude,
+        longitude: place.longitude,
+        priceLevel: place.priceLevel ? '$'.repeat(place.priceLevel) : undefined,
+        reviews,
+        aggregatedScore: calculateAggregatedScore(reviews, GROUP_WEIGHTING, anomalies),
+        confidence: calculateConfidence(reviews),
+        isOpenNow: place.openNow,
+        travelTimeMin: groupTime,
+        googleMapsUrl: `https://www.google.com/maps/place/?q=place_id:${place.placeId}`,
+        cuisine: cuisineIds.length > 0 ? cuisineLabel(cuisineIds[0]) : undefined,
+        cuisineIds,
+        types: place.types,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+      };
+      if (dietaryNeeds.length > 0) {
+        restaurant.dietaryMatch = assessDietaryMatch(restaurant, dietaryNeeds, Boolean(dietaryTerms));
+      }
+      restaurant.isExceptional = isExceptionalRestaurant(restaurant);
+      restaurant.valueScore = calculateValueScore(
+        restaurant.aggregatedScore,
+        groupTime,
+        groupLimit,
+        restaurant.isExceptional,
+        undefined,
+        place.priceLevel
+      );
+
+      return { restaurant, memberTravelTimes: times, groupTravelTimeMin: groupTime };
+    })
+  );
+
+  return candidates
+    .filter(c => meetsDietaryNeeds(c.restaurant))
+    .sort((a, b) => (b.restaurant.valueScore || 0) - (a.restaurant.valueScore || 0))
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * The best-ranked candidate every member voted yes on, if any
+ */
+export function decideWinner(session: GroupSession): string | undefined {
+  return session.candidates.find(c => {
+    const votes = session.votes[c.restaurant.id] ?? {};
+    return session.members.length > 0 && session.members.every(m => votes[m.id] === 'yes');
+  })?.restaurant.id;
+}
+
+/**
+ * Record a member's vote and re-check for a winner. Throws on unknown ids.
+ */
+export function recordVote(
+  session: GroupSession,
+  memberId: string,
+  restaurantId: string,
+  vote: GroupVote
+): GroupSession {
+  if (!session.members.some(m => m.id === memberId)) throw new Error('Unknown member');
+  if (!session.candidates.some(c => c.restaurant.id === restaurantId)) throw new Error('Unknown restaurant');
+
+  const votes = {
+    ...session.votes,
+    [restaurantId]: { ...session.votes[restaurantId], [memberId]: vote },
+  };
+  const next = { ...session, votes };
+  return { ...next, winnerId: decideWinner(next) };
+}
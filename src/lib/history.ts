@@ -0,0 +1,211 @@
+/**
+ * Rating history
+ *
+ * Every platform rating the app sees is recorded as a snapshot keyed by
+ * place and platform, so we can show how a place's ratings have moved and
+ * notice sudden drops (a new owner, the chef leaving). Ratings are stored as
+ * published, before calibration, so history survives calibration changes.
+ *
+ * History only builds up in a store that outlives the process:
+ * - memory (default): per-process, lost on cold start, so on serverless
+ *   deployments there is never enough history for drops or bursts
+ * - file: one JSON file per place under RATING_HISTORY_DIR, which must be a
+ *   volume shared by every instance and kept across deploys
+ *
+ * Select with RATING_HISTORY_BACKEND=memory|file, or swap in another store
+ * (e.g. a database) with setSnapshotStore.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlatformId, PlatformReview, RatingDrop, RatingSnapshot } from '@/types';
+
+export interface SnapshotStore {
+  list(placeId: string): Promise<RatingSnapshot[]>;
+  add(placeId: string, snapshot: RatingSnapshot): Promise<void>;
+  persistent: boolean; // Survives restarts and is shared across instances
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// An unchanged rating is recorded at most this often
+const MIN_SNAPSHOT_INTERVAL_MS = 6 * HOUR_MS;
+// Enough for a few platforms at the minimum interval over the retention window
+const MAX_SNAPSHOTS_PER_PLACE = 500;
+const RETENTION_DAYS = 180;
+const MAX_MEMORY_PLACES = 1000;
+
+// A drop is the latest rating this far below the best of the previous month.
+// Lifetime averages move slowly, so a fifth of a star is a lot.
+const DROP_WINDOW_DAYS = 30;
+const DROP_THRESHOLD = 0.2;
+
+/**
+ * A place's snapshots with the new one added, minus anything past retention or the cap
+ */
+function appendSnapshot(list: RatingSnapshot[], snapshot: RatingSnapshot): RatingSnapshot[] {
+  const cutoff = new Date(snapshot.at).getTime() - RETENTION_DAYS * DAY_MS;
+  return [...list, snapshot]
+    .filter(s => new Date(s.at).getTime() >= cutoff)
+    .slice(-MAX_SNAPSHOTS_PER_PLACE);
+}
+
+export class MemorySnapshotStore implements SnapshotStore {
+  readonly persistent = false;
+  // Map keeps insertion order, so the first place is always the least recently used
+  private snapshots = new Map<string, RatingSnapshot[]>();
+
+  constructor(private maxPlaces = MAX_MEMORY_PLACES) {}
+
+  async list(placeId: string): Promise<RatingSnapshot[]> {
+    const list = this.snapshots.get(placeId);
+    if (!list) return [];
+    this.snapshots.delete(placeId);
+    this.snapshots.set(placeId, list);
+    return list;
+  }
+
+  async add(placeId: string, snapshot: RatingSnapshot): Promise<void> {
+    const list = appendSnapshot(this.snapshots.get(placeId) ?? [], snapshot);
+    this.snapshots.delete(placeId);
+    this.snapshots.set(placeId, list);
+    while (this.snapshots.size > this.maxPlaces) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+  }
+}
+
+export class FileSnapshotStore implements SnapshotStore {
+  readonly persistent = true;
+
+  constructor(private directory: string) {}
+
+  private filePath(placeId: string): string {
+    const hash = createHash('sha1').update(placeId).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async list(placeId: string): Promise<RatingSnapshot[]> {
+    try {
+      const raw = await fs.readFile(this.filePath(placeId), 'utf8');
+      return JSON.parse(raw) as RatingSnapshot[];
+    } catch {
+      return [];
+    }
+  }
+
+  async add(placeId: string, snapshot: RatingSnapshot): Promise<void> {
+    const list = appendSnapshot(await this.list(placeId), snapshot);
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(placeId), JSON.stringify(list), 'utf8');
+    } catch (error) {
+      console.error('Rating history write error:', error);
+    }
+  }
+}
+
+function createDefaultStore(): SnapshotStore {
+  if (process.env.RATING_HISTORY_BACKEND === 'file') {
+    const directory = process.env.RATING_HISTORY_DIR || path.join(os.tmpdir(), 'where-should-i-eat-history');
+    return new FileSnapshotStore(directory);
+  }
+  return new MemorySnapshotStore();
+}
+
+let store: SnapshotStore = createDefaultStore();
+
+/**
+ * Swap the snapshot store (e.g. for a database)
+ */
+export function setSnapshotStore(next: SnapshotStore): void {
+  store = next;
+}
+
+/**
+ * Whether rating history survives restarts and is shared across instances,
+ * i.e. whether drops and review bursts can be detected at all
+ */
+export function hasPersistentHistory(): boolean {
+  return store.persistent;
+}
+
+/**
+ * Record the ratings seen for a place, stamped with when each platform was
+ * actually asked (lastUpdated), so a cached value isn't taken for a fresh
+ * reading. A reading no newer than the last snapshot is skipped, as is an
+ * unchanged rating within a few hours of it.
+ */
+export async function recordSnapshots(
+  placeId: string,
+  reviews: PlatformReview[],
+  now: Date = new Date()
+): Promise<void> {
+  const existing = await store.list(placeId);
+
+  for (const review of reviews) {
+    const rating = review.rawRating ?? review.rating;
+    const at = review.lastUpdated ? new Date(review.lastUpdated) : now;
+    const last = [...existing].reverse().find(s => s.platform === review.platform);
+    if (last) {
+      const sinceLast = at.getTime() - new Date(last.at).getTime();
+      const unchanged = last.rating === rating && last.reviewCount === review.reviewCount;
+      if (sinceLast <= 0 || (unchanged && sinceLast < MIN_SNAPSHOT_INTERVAL_MS)) continue;
+    }
+
+    await store.add(placeId, {
+      platform: review.platform,
+      rating,
+      reviewCount: review.reviewCount,
+      at: at.toISOString(),
+    });
+  }
+}
+
+/**
+ * A place's snapshots, oldest first, optionally limited to recent days or one platform
+ */
+export async function getRatingHistory(
+  placeId: string,
+  options: { sinceDays?: number; platform?: PlatformId; now?: Date } = {}
+): Promise<RatingSnapshot[]> {
+  const { sinceDays, platform, now = new Date() } = options;
+  const since = sinceDays !== undefined ? now.getTime() - sinceDays * DAY_MS : -Infinity;
+  return (await store.list(placeId))
+    .filter(s => !platform || s.platform === platform)
+    .filter(s => new Date(s.at).getTime() >= since)
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Platforms whose latest rating sits well below their best of the month before it
+ */
+export function detectRatingDrops(snapshots: RatingSnapshot[]): RatingDrop[] {
+  const byPlatform = new Map<string, RatingSnapshot[]>();
+  for (const snapshot of snapshots) {
+    byPlatform.set(snapshot.platform, [...(byPlatform.get(snapshot.platform) ?? []), snapshot]);
+  }
+
+  const drops: RatingDrop[] = [];
+  for (const series of byPlatform.values()) {
+    const sorted = [...series].sort((a, b) => a.at.localeCompare(b.at));
+    const latest = sorted[sorted.length - 1];
+    const windowStart = new Date(latest.at).getTime() - DROP_WINDOW_DAYS * DAY_MS;
+    const previous = sorted.slice(0, -1).filter(s => new Date(s.at).getTime() >= windowStart);
+    if (previous.length === 0) continue;
+
+    const peak = previous.reduce((best, s) => (s.rating > best.rating ? s : best));
+    if (peak.rating - latest.rating >= DROP_THRESHOLD) {
+      drops.push({
+        platform: latest.platform,
+        from: peak.rating,
+        to: latest.rating,
+        since: peak.at,
+        at: latest.at,
+      });
+    }
+  }
+  return drops;
+}
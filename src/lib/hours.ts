@@ -0,0 +1,281 @@
+/**
+ * Opening hours model
+ *
+ * One weekly schedule shape shared by the Places, ranking and demo code paths,
+ * with parsers for Google's structured periods and for human-readable lines
+ * like "Mon: 12:00 PM - 2:30 PM, 5:15 PM - 10:30 PM".
+ *
+ * Handles split shifts, "Open 24 hours", spans that run past midnight and
+ * per-date exceptions (holidays), and answers open / closes-at / next-open
+ * for any instant. Schedules are wall-clock times, so every query takes the
+ * restaurant's IANA time zone (server local time if omitted).
+ */
+
+import type { OpeningHoursPeriod } from './places';
+import { getZonedParts, zonedTimeToDate, ZonedParts } from './timezone';
+
+// A span of opening time, in minutes after the day's midnight.
+// `close` may exceed 1440 when the span runs past midnight (e.g. 10 AM - 2 AM).
+export interface TimeSpan {
+  open: number;
+  close: number;
+}
+
+export interface WeeklySchedule {
+  // Index 0 = Sunday. `undefined` means we have no data for that day,
+  // an empty array means closed all day.
+  days: (TimeSpan[] | undefined)[];
+  // Overrides for specific dates, keyed by local "YYYY-MM-DD"
+  exceptions?: Record<string, TimeSpan[]>;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt?: Date; // When the current span ends (undefined if open around the clock)
+  nextOpenAt?: Date; // Start of the next span when currently closed
+  unknown?: boolean; // No hours data covered this instant; isOpen is a guess
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look for the next opening / end of a 24h run
+const LOOKAHEAD_DAYS = 7;
+
+function emptySchedule(): WeeklySchedule {
+  return { days: Array.from({ length: 7 }, () => undefined) };
+}
+
+/**
+ * Whether the schedule has any usable data at all
+ */
+export function hasHours(schedule: WeeklySchedule | null | undefined): schedule is WeeklySchedule {
+  if (!schedule) return false;
+  return schedule.days.some(d => d !== undefined) || Object.keys(schedule.exceptions ?? {}).length > 0;
+}
+
+/**
+ * Build a schedule from Google Places `opening_hours.periods`
+ * A single period opening Sunday 00:00 with no close means open 24/7.
+ */
+export function parseGooglePeriods(periods: OpeningHoursPeriod[] | undefined): WeeklySchedule | null {
+  if (!periods || periods.length === 0) return null;
+
+  const schedule = emptySchedule();
+  // Google only lists days that have periods; the rest are closed
+  schedule.days = schedule.days.map(() => []);
+
+  if (periods.length === 1 && !periods[0].close && periods[0].open.time === '0000') {
+    schedule.days = schedule.days.map(() => [{ open: 0, close: MINUTES_PER_DAY }]);
+    return schedule;
+  }
+
+  for (const period of periods) {
+    const open = hhmmToMinutes(period.open.time);
+    let close = period.close ? hhmmToMinutes(period.close.time) : MINUTES_PER_DAY;
+    if (period.close) {
+      const daysLater = (period.close.day - period.open.day + 7) % 7;
+      close += daysLater * MINUTES_PER_DAY;
+      // Same day but closing "before" opening means a full week wrap; treat as overnight
+      if (close <= open) close += MINUTES_PER_DAY;
+    }
+    schedule.days[period.open.day]!.push({ open, close });
+  }
+
+  schedule.days.forEach(spans => spans?.sort((a, b) => a.open - b.open));
+  return schedule;
+}
+
+/**
+ * Build a schedule from lines like:
+ *   "Mon: 11:00 AM - 10:00 PM"
+ *   "Monday: 12:00 – 2:30 PM, 5:15 – 10:30 PM"   (Google weekday_text)
+ *   "Sat: Open 24 hours" / "Sun: Closed"
+ *   "2025-12-25: Closed"                         (date exception)
+ */
+export function parseHoursText(lines: string[] | undefined): WeeklySchedule | null {
+  if (!lines || lines.length === 0) return null;
+
+  const schedule = emptySchedule();
+
+  for (const line of lines) {
+    const separator = line.indexOf(':', line.match(/^\d{4}-\d{2}-\d{2}/) ? 10 : 0);
+    if (separator === -1) continue;
+
+    const label = line.slice(0, separator).trim().toLowerCase();
+    const spans = parseSpans(line.slice(separator + 1));
+    if (!spans) continue;
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(label)) {
+      schedule.exceptions = { ...schedule.exceptions, [label]: spans };
+      continue;
+    }
+
+    const dayIndex = DAY_NAMES.indexOf(label.slice(0, 3));
+    if (dayIndex !== -1) {
+      schedule.days[dayIndex] = spans;
+    }
+  }
+
+  return hasHours(schedule) ? schedule : null;
+}
+
+/**
+ * Parse the part after "Mon:" into spans. Returns null if unreadable.
+ */
+function parseSpans(text: string): TimeSpan[] | null {
+  const normalized = text.trim().toLowerCase();
+  if (normalized.includes('closed')) return [];
+  if (normalized.includes('24 hours')) return [{ open: 0, close: MINUTES_PER_DAY }];
+
+  const spans: TimeSpan[] = [];
+  const rangePattern = /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–—]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/g;
+
+  for (const match of normalized.matchAll(rangePattern)) {
+    const [, openHour, openMinute, openMeridiem, closeHour, closeMinute, closeMeridiem] = match;
+    const close = clockToMinutes(closeHour, closeMinute, closeMeridiem);
+    // "5:15 – 10:30 PM" shares the closing meridiem, unless that would put
+    // opening after closing ("11:00 – 2:30 PM" opens in the morning)
+    let open = clockToMinutes(openHour, openMinute, openMeridiem ?? closeMeridiem);
+    if (!openMeridiem && closeMeridiem === 'pm' && open > close) {
+      open = clockToMinutes(openHour, openMinute, 'am');
+    }
+    // Closing at or before opening means it runs past midnight
+    spans.push({ open, close: close <= open ? close + MINUTES_PER_DAY : close });
+  }
+
+  return spans.length > 0 ? spans.sort((a, b) => a.open - b.open) : null;
+}
+
+function clockToMinutes(hour: string, minute: string | undefined, meridiem: string | undefined): number {
+  let h = parseInt(hour, 10);
+  const m = minute ? parseInt(minute, 10) : 0;
+  if (meridiem === 'pm' && h !== 12) h += 12;
+  if (meridiem === 'am' && h === 12) h = 0;
+  return h * 60 + m;
+}
+
+function hhmmToMinutes(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+}
+
+function dateKey(parts: ZonedParts): string {
+  const month = parts.month.toString().padStart(2, '0');
+  const day = parts.day.toString().padStart(2, '0');
+  return `${parts.year}-${month}-${day}`;
+}
+
+/**
+ * Calendar date `offset` days from `base` in the zone (noon avoids DST edges)
+ */
+function shiftDay(base: ZonedParts, offset: number, timeZone?: string): ZonedParts {
+  const noon = zonedTimeToDate(base.year, base.month, base.day + offset, 12, 0, timeZone);
+  return getZonedParts(noon, timeZone);
+}
+
+/**
+ * Concrete open intervals for the days around `at`, exceptions applied,
+ * sorted and with back-to-back intervals merged (so 24h days chain together)
+ */
+function intervalsAround(
+  schedule: WeeklySchedule,
+  at: Date,
+  timeZone?: string
+): { start: Date; end: Date }[] {
+  const today = getZonedParts(at, timeZone);
+  const intervals: { start: Date; end: Date }[] = [];
+
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = shiftDay(today, offset, timeZone);
+    const spans = schedule.exceptions?.[dateKey(day)] ?? schedule.days[day.weekday] ?? [];
+    for (const span of spans) {
+      intervals.push({
+        start: zonedTimeToDate(day.year, day.month, day.day, 0, span.open, timeZone),
+        end: zonedTimeToDate(day.year, day.month, day.day, 0, span.close, timeZone),
+      });
+    }
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: { start: Date; end: Date }[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Open/closed state at an instant, with when it closes or next opens
+ */
+export function getOpenStatus(
+  schedule: WeeklySchedule | null | undefined,
+  at: Date,
+  timeZone?: string
+): OpenStatus {
+  if (!hasHours(schedule)) {
+    // If no hours data, assume open (better to show than hide)
+    return { isOpen: true, unknown: true };
+  }
+
+  const intervals = intervalsAround(schedule, at, timeZone);
+  const current = intervals.find(i => i.start <= at && at < i.end);
+  const today = getZonedParts(at, timeZone);
+  const horizon = zonedTimeToDate(today.year, today.month, today.day + LOOKAHEAD_DAYS, 0, 0, timeZone);
+
+  if (current) {
+    return {
+      isOpen: true,
+      closesAt: current.end >= horizon ? undefined : current.end,
+    };
+  }
+
+  const dayKnown =
+    schedule.exceptions?.[dateKey(today)] !== undefined || schedule.days[today.weekday] !== undefined;
+  const next = intervals.find(i => i.start > at);
+
+  if (!dayKnown) {
+    return { isOpen: true, unknown: true, nextOpenAt: next?.start };
+  }
+  return { isOpen: false, nextOpenAt: next?.start };
+}
+
+/**
+ * Whether the restaurant stays open without a break from `from` until `until`
+ * (e.g. arrival through the end of the meal). Unknown hours count as open.
+ */
+export function isOpenThroughout(
+  schedule: WeeklySchedule | null | undefined,
+  from: Date,
+  until: Date,
+  timeZone?: string
+): boolean {
+  const status = getOpenStatus(schedule, from, timeZone);
+  if (!status.isOpen) return false;
+  if (status.unknown || !status.closesAt) return true;
+  return status.closesAt >= until;
+}
+
+/**
+ * Format a time like "10:30 PM" for "open until" labels, on the zone's clock
+ */
+export function formatClockTime(date: Date, timeZone?: string): string {
+  const { hour: hours, minute } = getZonedParts(date, timeZone);
+  const minutes = minute.toString().padStart(2, '0');
+  const meridiem = hours >= 12 ? 'PM' : 'AM';
+  const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHour}:${minutes} ${meridiem}`;
+}
+
+/**
+ * "Open until" label for a status: a clock time, or "24 hours" when it doesn't close soon
+ */
+export function formatOpenUntil(status: OpenStatus, timeZone?: string): string | undefined {
+  if (!status.isOpen || status.unknown) return undefined;
+  return status.closesAt ? formatClockTime(status.closesAt, timeZone) : '24 hours';
+}
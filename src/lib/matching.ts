@@ -0,0 +1,234 @@
+/**
+ * Cross-platform entity matching
+ *
+ * Review providers search by name and return whatever they think is closest.
+ * Before we merge a provider's rating into a Google place we check that the
+ * candidate is actually the same restaurant: name tokens, address, coordinates
+ * and phone number are compared and combined into a 0-1 match confidence.
+ */
+
+import { PlatformReview } from '@/types';
+import { calculateDistance } from './geolocation';
+
+export interface MatchTarget {
+  name: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  phone?: string;
+}
+
+export interface MatchResult<T> {
+  candidate: T;
+  confidence: number; // 0-1
+}
+
+// Below this we don't trust the candidate at all and drop it
+export const MATCH_REJECT_THRESHOLD = 0.5;
+// Below this the match is kept but flagged as uncertain in the UI
+export const MATCH_FLAG_THRESHOLD = 0.75;
+
+// Relative importance of each signal when it's available on both sides
+const SIGNAL_WEIGHTS = {
+  name: 0.5,
+  coordinates: 0.25,
+  address: 0.15,
+  phone: 0.1,
+};
+
+// Words that say nothing about which restaurant it is
+const NAME_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'of', 'restaurant', 'restaurants', 'cafe', 'bar',
+  'grill', 'kitchen', 'eatery', 'nyc', 'co', 'inc', 'llc',
+]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', boulevard: 'blvd', road: 'rd', drive: 'dr',
+  place: 'pl', lane: 'ln', court: 'ct', square: 'sq', highway: 'hwy',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  first: '1st', second: '2nd', third: '3rd', fourth: '4th', fifth: '5th',
+};
+
+/**
+ * Lowercase, strip accents and punctuation, split into words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Dice coefficient over two token sets
+ */
+function tokenOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = new Set(a.filter(t => setB.has(t)));
+  return (2 * shared.size) / (new Set(a).size + setB.size);
+}
+
+/**
+ * Whether `inner` appears as a run of whole tokens inside `outer`
+ */
+function containsWords(outer: string[], inner: string[]): boolean {
+  for (let start = 0; start + inner.length <= outer.length; start++) {
+    if (inner.every((token, i) => outer[start + i] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Compare restaurant names, ignoring filler words like "the" or "restaurant"
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a).filter(t => !NAME_STOPWORDS.has(t));
+  const tokensB = tokenize(b).filter(t => !NAME_STOPWORDS.has(t));
+
+  // Names made only of stopwords ("The Restaurant") - fall back to raw tokens
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return tokenOverlap(tokenize(a), tokenize(b));
+  }
+
+  // "Joe's" vs "Joe's Pizza" - one name's words all appear, in order, in the
+  // other. Whole words only, so "Pho" doesn't match "Phoenix Grill".
+  if (tokensA.join(' ') === tokensB.join(' ')) return 1;
+  const containment = containsWords(tokensA, tokensB) || containsWords(tokensB, tokensA) ? 0.85 : 0;
+
+  return Math.max(containment, tokenOverlap(tokensA, tokensB));
+}
+
+/**
+ * The street part of an address: the first comma-separated part that starts
+ * with a house number ("Chelsea Market, 75 9th Ave, New York" -> "75 9th Ave"),
+ * else the first part. Providers disagree on whether city, state and postcode
+ * follow, so only this part is compared.
+ */
+function streetLine(address: string): string {
+  const parts = address.split(',').map(p => p.trim()).filter(Boolean);
+  return parts.find(p => /^\d/.test(p)) ?? parts[0] ?? '';
+}
+
+/**
+ * Compare street addresses. The house number has to agree for a high score.
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const normalize = (text: string) =>
+    tokenize(streetLine(text)).map(t => ADDRESS_ABBREVIATIONS[t] ?? t);
+  const tokensA = normalize(a);
+  const tokensB = normalize(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const overlap = tokenOverlap(tokensA, tokensB);
+  const numberA = tokensA.find(t => /^\d+$/.test(t));
+  const numberB = tokensB.find(t => /^\d+$/.test(t));
+
+  if (numberA && numberB && numberA !== numberB) {
+    return overlap * 0.5;
+  }
+  return overlap;
+}
+
+/**
+ * 1.0 within 50m, 0 beyond 500m, linear in between
+ */
+export function coordinateSimilarity(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const meters = calculateDistance(lat1, lon1, lat2, lon2) * 1000;
+  if (meters <= 50) return 1;
+  if (meters >= 500) return 0;
+  return 1 - (meters - 50) / 450;
+}
+
+/**
+ * Phone numbers match when their last 10 digits agree
+ */
+export function phoneSimilarity(a: string, b: string): number {
+  const digitsA = a.replace(/\D/g, '').slice(-10);
+  const digitsB = b.replace(/\D/g, '').slice(-10);
+  if (digitsA.length < 7 || digitsB.length < 7) return 0;
+  return digitsA === digitsB ? 1 : 0;
+}
+
+/**
+ * Score how likely `candidate` is the same restaurant as `target`
+ * Only signals present on both sides count; their weights are renormalized.
+ */
+export function calculateMatchConfidence(target: MatchTarget, candidate: MatchTarget): number {
+  const signals: { score: number; weight: number }[] = [
+    { score: nameSimilarity(target.name, candidate.name), weight: SIGNAL_WEIGHTS.name },
+  ];
+
+  const hasCoordinates =
+    target.latitude !== undefined && target.longitude !== undefined &&
+    candidate.latitude !== undefined && candidate.longitude !== undefined;
+  if (hasCoordinates) {
+    signals.push({
+      score: coordinateSimilarity(target.latitude!, target.longitude!, candidate.latitude!, candidate.longitude!),
+      weight: SIGNAL_WEIGHTS.coordinates,
+    });
+  }
+  if (target.address && candidate.address) {
+    signals.push({
+      score: addressSimilarity(target.address, candidate.address),
+      weight: SIGNAL_WEIGHTS.address,
+    });
+  }
+  if (target.phone && candidate.phone) {
+    signals.push({
+      score: phoneSimilarity(target.phone, candidate.phone),
+      weight: SIGNAL_WEIGHTS.phone,
+    });
+  }
+
+  const totalWeight = signals.reduce((acc, s) => acc + s.weight, 0);
+  let confidence = signals.reduce((acc, s) => acc + s.score * s.weight, 0) / totalWeight;
+
+  // A clearly different name can't be rescued by being next door
+  // (food halls, shared addresses)
+  if (signals[0].score < 0.3) {
+    confidence = Math.min(confidence, signals[0].score);
+  }
+
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Pick the candidate that best matches the target, or null if none clears
+ * MATCH_REJECT_THRESHOLD
+ */
+export function findBestMatch<T>(
+  target: MatchTarget,
+  candidates: T[],
+  toMatchTarget: (candidate: T) => MatchTarget
+): MatchResult<T> | null {
+  let best: MatchResult<T> | null = null;
+
+  for (const candidate of candidates) {
+    const confidence = calculateMatchConfidence(target, toMatchTarget(candidate));
+    if (!best || confidence > best.confidence) {
+      best = { candidate, confidence };
+    }
+  }
+
+  if (!best || best.confidence < MATCH_REJECT_THRESHOLD) {
+    return null;
+  }
+  return best;
+}
+
+/**
+ * Whether a review's entity match is uncertain enough to warn the user
+ */
+export function isUncertainMatch(review: PlatformReview): boolean {
+  return review.matchConfidence !== undefined && review.matchConfidence < MATCH_FLAG_THRESHOLD;
+}
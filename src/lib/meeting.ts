@@ -0,0 +1,71 @@
+/**
+ * Meeting in the middle
+ *
+ * Helpers for searches with several starting points (a search with multiple
+ * origins, or a group session): where to search, and how to turn everyone's
+ * travel times into one fair number to rank by.
+ *
+ * Fairness objectives:
+ * - min_max: nobody should have a long trip (rank by the slowest person)
+ * - min_sum: least total travel (rank by the average trip)
+ * - within: anywhere everyone reaches within X minutes is equally good
+ */
+
+import { calculateDistance, Coordinates } from '@/lib/geolocation';
+import { searchRadiusMeters } from '@/lib/routing';
+import { FairnessObjective, TravelModePreference } from '@/types';
+
+export const FAIRNESS_OBJECTIVES: FairnessObjective[] = ['min_max', 'min_sum', 'within'];
+
+/**
+ * Average position of the origins
+ */
+export function centroid(origins: Coordinates[]): Coordinates {
+  return {
+    latitude: origins.reduce((sum, o) => sum + o.latitude, 0) / origins.length,
+    longitude: origins.reduce((sum, o) => sum + o.longitude, 0) / origins.length,
+  };
+}
+
+/**
+ * Center and radius (meters) of a search that covers everywhere all origins
+ * can reach: a place inside every person's reach is within (distance to
+ * center + reach) of the center for each of them, so the smallest such sum wins
+ */
+export function meetingArea(
+  origins: (Coordinates & { travelMode: TravelModePreference; maxTravelTimeMin: number })[]
+): { center: Coordinates; radiusMeters: number } {
+  const center = centroid(origins);
+  const radius = Math.min(
+    ...origins.map(o =>
+      calculateDistance(center.latitude, center.longitude, o.latitude, o.longitude) * 1000 +
+      searchRadiusMeters(o.maxTravelTimeMin, o.travelMode)
+    )
+  );
+  // Google Places caps the nearby radius at 50km
+  return { center, radiusMeters: Math.min(50000, Math.round(radius)) };
+}
+
+/**
+ * One travel time for the group under an objective, comparable to a single
+ * person's trip so it can go straight into calculateValueScore
+ */
+export function fairTravelTime(memberMinutes: number[], objective: FairnessObjective): number {
+  if (memberMinutes.length === 0) return 0;
+  switch (objective) {
+    case 'min_max':
+      return Math.max(...memberMinutes);
+    case 'min_sum':
+      return Math.round(memberMinutes.reduce((sum, m) => sum + m, 0) / memberMinutes.length);
+    case 'within':
+      // Travel no longer matters once everyone is inside the limit
+      return 0;
+  }
+}
+
+/**
+ * Whether every person's trip is inside the limit
+ */
+export function everyoneWithin(memberMinutes: number[], limitMin: number): boolean {
+  return memberMinutes.every(m => m <= limitMin);
+}
@@ -3,8 +3,14 @@
  * 
  * To use this, you need a Google Places API key.
  * Set it as GOOGLE_PLACES_API_KEY in your environment.
+ *
+ * Nearby and details lookups go through the response cache (see lib/cache).
  */
 
+import { ReviewSample } from '@/types';
+import { cached, invalidate } from './cache';
+import { getOpenStatus, isOpenThroughout, parseGooglePeriods } from './hours';
+
 export interface OpeningHoursPeriod {
   open: { day: number; time: string }; // day: 0=Sunday, time: "0900"
   close?: { day: number; time: string };
@@ -23,6 +29,15 @@ export interface PlaceResult {
   openNow?: boolean;
   openingHours?: OpeningHoursPeriod[];
   photos?: string[];
+  fetchedAt?: Date; // When Google was actually queried (may be earlier than now if cached)
+}
+
+export interface PlaceDetails extends PlaceResult {
+  website?: string;
+  phoneNumber?: string;
+  weekdayHours?: string[]; // Google's display lines, "Monday: 11:00 AM – 10:00 PM"
+  googleUrl?: string; // The place's Google Maps page
+  reviews: ReviewSample[]; // Newest first, up to 5
 }
 
 export interface NearbySearchParams {
@@ -32,14 +47,30 @@ export interface NearbySearchParams {
   type?: string; // default 'restaurant'
   keyword?: string;
   openNow?: boolean;
+  minPrice?: number; // 0 (free) to 4 ($$$$)
+  maxPrice?: number;
 }
 
 const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 
+// Open-now flags go out of date quickly, so nearby results are short-lived
+const NEARBY_CACHE = { ttlMs: 10 * 60 * 1000, staleMs: 5 * 60 * 1000 };
+const DETAILS_CACHE = { ttlMs: 24 * 60 * 60 * 1000 };
+
 /**
  * Search for nearby restaurants using Google Places API
+ * Results are cached per (rounded) location and query for a few minutes.
  */
 export async function searchNearbyPlaces(params: NearbySearchParams): Promise<PlaceResult[]> {
+  const { latitude, longitude, radius = 5000, type = 'restaurant', keyword = '', openNow = false, minPrice, maxPrice } = params;
+  // ~100m grid so small GPS jitter still hits the cache
+  const key = `places:nearby:${latitude.toFixed(3)},${longitude.toFixed(3)}:${radius}:${type}:${keyword}:${openNow}:${minPrice ?? ''}-${maxPrice ?? ''}`;
+
+  const { value, fetchedAt } = await cached(key, NEARBY_CACHE, () => fetchNearbyPlaces(params));
+  return value.map(place => ({ ...place, fetchedAt }));
+}
+
+async function fetchNearbyPlaces(params: NearbySearchParams): Promise<PlaceResult[]> {
   const {
     latitude,
     longitude,
@@ -47,6 +78,8 @@ export async function searchNearbyPlaces(params: NearbySearchParams): Promise<Pl
     type = 'restaurant',
     keyword,
     openNow,
+    minPrice,
+    maxPrice,
   } = params;
 
   if (!GOOGLE_PLACES_API_KEY) {
@@ -65,6 +98,12 @@ export async function searchNearbyPlaces(params: NearbySearchParams): Promise<Pl
   if (openNow) {
     url.searchParams.set('opennow', 'true');
   }
+  if (minPrice !== undefined) {
+    url.searchParams.set('minprice', minPrice.toString());
+  }
+  if (maxPrice !== undefined) {
+    url.searchParams.set('maxprice', maxPrice.toString());
+  }
 
   const response = await fetch(url.toString());
   const data = await response.json();
@@ -90,65 +129,110 @@ export async function searchNearbyPlaces(params: NearbySearchParams): Promise<Pl
 }
 
 /**
- * Check if a restaurant is open at a specific date/time
+ * URL for one of a place's photos (a reference from `photos`)
  */
-export function isOpenAtTime(openingHours: OpeningHoursPeriod[] | undefined, targetDate: Date): boolean {
-  if (!openingHours || openingHours.length === 0) {
-    // If no hours data, assume open (better to show than hide)
-    return true;
-  }
+export function getPhotoUrl(photoReference: string, maxWidth = 400): string {
+  return `https://maps.googleapis.com/maps/api/place/photo?maxwidth=${maxWidth}&photoreference=${photoReference}&key=${GOOGLE_PLACES_API_KEY}`;
+}
 
-  const dayOfWeek = targetDate.getDay(); // 0 = Sunday
-  const timeStr = targetDate.getHours().toString().padStart(2, '0') + 
-                  targetDate.getMinutes().toString().padStart(2, '0');
-
-  for (const period of openingHours) {
-    // Check if this period covers the target day
-    if (period.open.day === dayOfWeek) {
-      const openTime = period.open.time;
-      const closeTime = period.close?.time || '2359';
-      
-      // Handle overnight hours (close time on next day)
-      if (period.close && period.close.day !== period.open.day) {
-        // Opens today and closes tomorrow - if we're after open time, we're good
-        if (timeStr >= openTime) return true;
-      } else {
-        // Normal same-day hours
-        if (timeStr >= openTime && timeStr <= closeTime) return true;
-      }
-    }
-    
-    // Check if previous day's overnight hours cover us
-    const prevDay = (dayOfWeek + 6) % 7;
-    if (period.open.day === prevDay && period.close && period.close.day === dayOfWeek) {
-      if (timeStr <= period.close.time) return true;
-    }
-  }
+/**
+ * Check if a restaurant is open at a specific date/time
+ * Periods are wall-clock times in the restaurant's `timeZone`.
+ */
+export function isOpenAtTime(
+  openingHours: OpeningHoursPeriod[] | undefined,
+  targetDate: Date,
+  timeZone?: string
+): boolean {
+  return getOpenStatus(parseGooglePeriods(openingHours), targetDate, timeZone).isOpen;
+}
 
-  return false;
+/**
+ * Check if a restaurant is open for a whole planned visit: arriving any time
+ * in [arriveFrom, arriveBy] and staying `durationMin` minutes
+ */
+export function isOpenDuring(
+  openingHours: OpeningHoursPeriod[] | undefined,
+  arriveFrom: Date,
+  arriveBy: Date,
+  durationMin: number,
+  timeZone?: string
+): boolean {
+  const leaveBy = new Date(arriveBy.getTime() + durationMin * 60000);
+  return isOpenThroughout(parseGooglePeriods(openingHours), arriveFrom, leaveBy, timeZone);
 }
 
 /**
- * Get detailed place information including reviews
+ * Get detailed place information including reviews, hours, contact details and photos.
+ * Null if Google doesn't know the place id.
  */
-export async function getPlaceDetails(placeId: string): Promise<any> {
+export async function getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+  const key = `places:details:${placeId}`;
+  const { value, fetchedAt } = await cached(key, DETAILS_CACHE, () => fetchPlaceDetails(placeId));
+  // Made-up ids come from clients; remembering each one would let them fill the cache
+  if (!value) await invalidate(key);
+  return value && { ...value, fetchedAt };
+}
+
+async function fetchPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
   if (!GOOGLE_PLACES_API_KEY) {
     throw new Error('GOOGLE_PLACES_API_KEY is not configured');
   }
 
   const url = new URL('https://maps.googleapis.com/maps/api/place/details/json');
   url.searchParams.set('place_id', placeId);
-  url.searchParams.set('fields', 'name,formatted_address,geometry,rating,user_ratings_total,price_level,opening_hours,reviews,types,website,formatted_phone_number');
+  url.searchParams.set('fields', 'name,formatted_address,geometry,rating,user_ratings_total,price_level,opening_hours,reviews,types,website,formatted_phone_number,photos,url');
+  url.searchParams.set('reviews_sort', 'newest');
   url.searchParams.set('key', GOOGLE_PLACES_API_KEY);
 
   const response = await fetch(url.toString());
   const data = await response.json();
 
+  if (data.status === 'NOT_FOUND' || data.status === 'INVALID_REQUEST') {
+    return null;
+  }
   if (data.status !== 'OK') {
     throw new Error(`Google Places API error: ${data.status}`);
   }
 
-  return data.result;
+  const place = data.result;
+  const reviews: { rating: number; time: number; text?: string }[] = place.reviews ?? [];
+  return {
+    placeId,
+    name: place.name,
+    address: place.formatted_address,
+    latitude: place.geometry.location.lat,
+    longitude: place.geometry.location.lng,
+    rating: place.rating,
+    userRatingsTotal: place.user_ratings_total,
+    priceLevel: place.price_level,
+    types: place.types,
+    openNow: place.opening_hours?.open_now,
+    openingHours: place.opening_hours?.periods,
+    weekdayHours: place.opening_hours?.weekday_text,
+    photos: place.photos?.map((p: { photo_reference: string }) => p.photo_reference),
+    website: place.website,
+    phoneNumber: place.formatted_phone_number,
+    googleUrl: place.url,
+    reviews: reviews.map(r => ({
+      rating: r.rating,
+      time: new Date(r.time * 1000).toISOString(),
+      text: r.text || undefined,
+    })),
+  };
+}
+
+/**
+ * Google's newest reviews for a place (up to 5), from Place Details.
+ * Empty if details aren't available.
+ */
+export async function getRecentGoogleReviews(placeId: string): Promise<ReviewSample[]> {
+  try {
+    const details = await getPlaceDetails(placeId);
+    return details?.reviews ?? [];
+  } catch {
+    return [];
+  }
 }
 
 /**
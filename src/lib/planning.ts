@@ -0,0 +1,154 @@
+/**
+ * Planned dining time
+ *
+ * Turns the request's `plannedTime` into a concrete arrival window.
+ * Accepted forms:
+ * - 'now'
+ * - meal presets: 'breakfast', 'lunch', 'dinner', 'tomorrow_lunch', 'tomorrow_dinner'
+ * - an ISO datetime ("2025-06-14T19:00", or with an offset / Z)
+ * - an ISO interval ("2025-06-14T19:00/2025-06-14T21:00") or { start, end }
+ * - short phrases like "Saturday 7-9pm", "tomorrow 12:30pm", "fri 6pm–8:30pm"
+ *
+ * Datetimes without an offset are read on the diner's clock (`timeZone`).
+ */
+
+import { getZonedParts, zonedTimeToDate, ZonedParts } from './timezone';
+
+export interface PlannedWindow {
+  start: Date; // Earliest arrival
+  end: Date; // Latest arrival (same as start for a single time)
+  isNow: boolean;
+}
+
+export type PlannedTimeInput = string | { start: string; end?: string };
+
+export const DEFAULT_DINING_DURATION_MIN = 60;
+
+const MEAL_PRESETS: Record<string, { hour: number; tomorrow: boolean }> = {
+  breakfast: { hour: 8, tomorrow: false },
+  lunch: { hour: 12, tomorrow: false },
+  dinner: { hour: 19, tomorrow: false },
+  tomorrow_lunch: { hour: 12, tomorrow: true },
+  tomorrow_dinner: { hour: 19, tomorrow: true },
+};
+
+const DAY_WORDS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parse an ISO datetime; offset-less values are wall-clock time in `timeZone`
+ */
+function parseIsoDateTime(value: string, timeZone?: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+
+  if (match[6]) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return zonedTimeToDate(year, month, day, hour, minute, timeZone);
+}
+
+/**
+ * Minutes after midnight for "7", "7pm", "7:30 pm", "19:30", or null for
+ * impossible times ("25pm", "7:75")
+ */
+function parseClock(hour: string, minute: string | undefined, meridiem: string | undefined): number | null {
+  let h = parseInt(hour, 10);
+  const m = minute ? parseInt(minute, 10) : 0;
+  if (m > 59) return null;
+  if (meridiem ? h < 1 || h > 12 : h > 23) return null;
+  if (meridiem === 'pm' && h !== 12) h += 12;
+  if (meridiem === 'am' && h === 12) h = 0;
+  return h * 60 + m;
+}
+
+/**
+ * Parse phrases like "Saturday 7-9pm" or "tomorrow 12:30pm"
+ */
+function parsePhrase(value: string, now: Date, timeZone?: string): PlannedWindow | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(?:(today|tonight|tomorrow|[a-z]{3,9})\s+)?(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s*(?:-|–|—|to)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)?$/);
+  if (!match) return null;
+
+  const [, dayWord, startHour, startMinute, startMeridiemRaw, endHour, endMinute, endMeridiem] = match;
+  // "7-9pm": the start shares the end's meridiem
+  const startMeridiem = startMeridiemRaw ?? endMeridiem ?? (dayWord === 'tonight' ? 'pm' : undefined);
+
+  const local = getZonedParts(now, timeZone);
+  let dayOffset = 0;
+  if (dayWord === 'tomorrow') {
+    dayOffset = 1;
+  } else if (dayWord && dayWord !== 'today' && dayWord !== 'tonight') {
+    const weekday = DAY_WORDS.indexOf(dayWord.slice(0, 3));
+    if (weekday === -1) return null;
+    dayOffset = (weekday - local.weekday + 7) % 7;
+  }
+
+  const startMin = parseClock(startHour, startMinute, startMeridiem);
+  let endMin = endHour ? parseClock(endHour, endMinute, endMeridiem ?? startMeridiem) : startMin;
+  if (startMin === null || endMin === null) return null;
+  // "11pm-1am" runs past midnight; "7-7pm" is no window at all
+  if (endHour && endMin === startMin) return null;
+  if (endMin < startMin) endMin += 24 * 60;
+
+  // A bare time or weekday that has already passed today means the next one
+  const nowMin = local.hour * 60 + local.minute;
+  if (dayOffset === 0 && startMin < nowMin && dayWord !== 'today' && dayWord !== 'tonight') {
+    dayOffset = dayWord ? 7 : 1;
+  }
+
+  const toDate = (minutes: number) =>
+    zonedTimeToDate(local.year, local.month, local.day + dayOffset, 0, minutes, timeZone);
+  return { start: toDate(startMin), end: toDate(endMin), isNow: false };
+}
+
+function presetWindow(preset: { hour: number; tomorrow: boolean }, local: ZonedParts, timeZone?: string): PlannedWindow {
+  const dayOffset = preset.tomorrow || local.hour >= preset.hour ? 1 : 0;
+  const start = zonedTimeToDate(local.year, local.month, local.day + dayOffset, preset.hour, 0, timeZone);
+  return { start, end: start, isNow: false };
+}
+
+/**
+ * Resolve `plannedTime` into an arrival window, or null if it can't be
+ * understood. Takes unchecked request input, so anything malformed is null.
+ */
+export function resolvePlannedWindow(
+  input: PlannedTimeInput | undefined,
+  timeZone?: string,
+  now: Date = new Date()
+): PlannedWindow | null {
+  if (input === undefined || input === 'now' || input === '') {
+    return { start: now, end: now, isNow: true };
+  }
+
+  if (typeof input === 'object' && input !== null) {
+    if (typeof input.start !== 'string' || (input.end !== undefined && typeof input.end !== 'string')) return null;
+    const start = parseIsoDateTime(input.start, timeZone);
+    const end = input.end ? parseIsoDateTime(input.end, timeZone) : start;
+    if (!start || !end) return null;
+    if (input.end && end <= start) return null;
+    return { start, end, isNow: false };
+  }
+  if (typeof input !== 'string') return null;
+
+  const preset = Object.hasOwn(MEAL_PRESETS, input) ? MEAL_PRESETS[input] : undefined;
+  if (preset) {
+    return presetWindow(preset, getZonedParts(now, timeZone), timeZone);
+  }
+
+  if (input.includes('/')) {
+    const [startText, endText] = input.split('/');
+    return resolvePlannedWindow({ start: startText, end: endText }, timeZone, now);
+  }
+
+  const single = parseIsoDateTime(input, timeZone);
+  if (single) {
+    return { start: single, end: single, isNow: false };
+  }
+
+  return parsePhrase(input, now, timeZone);
+}
@@ -0,0 +1,109 @@
+/**
+ * Platform metadata registry
+ *
+ * Display name, badge styling, icon and default trust weight for every review
+ * platform. Scoring and the UI read from here, so adding a source means one
+ * registerPlatform call instead of edits across components.
+ */
+
+import { PlatformId } from '@/types';
+
+export interface PlatformInfo {
+  id: PlatformId;
+  label: string;
+  colorClass: string; // Tailwind background + text classes
+  borderClass: string;
+  icon: string;
+  defaultWeight: number; // Used by the platform_trust strategy
+}
+
+const platforms = new Map<string, PlatformInfo>();
+
+/**
+ * Register (or replace) a platform's metadata
+ */
+export function registerPlatform(info: PlatformInfo): void {
+  platforms.set(info.id, info);
+}
+
+/**
+ * Metadata for a platform, with a neutral fallback for unregistered ids
+ */
+export function getPlatformInfo(id: PlatformId): PlatformInfo {
+  return platforms.get(id) ?? {
+    id,
+    label: id.charAt(0).toUpperCase() + id.slice(1),
+    colorClass: 'bg-gray-100 text-gray-700',
+    borderClass: 'border-gray-200',
+    icon: '⭐',
+    defaultWeight: 1.0,
+  };
+}
+
+/**
+ * All registered platforms
+ */
+export function getPlatforms(): PlatformInfo[] {
+  return Array.from(platforms.values());
+}
+
+/**
+ * Default platform_trust weights for every registered platform
+ */
+export function getDefaultPlatformWeights(): Record<string, number> {
+  return Object.fromEntries(getPlatforms().map(p => [p.id, p.defaultWeight]));
+}
+
+registerPlatform({
+  id: 'google',
+  label: 'Google',
+  colorClass: 'bg-blue-100 text-blue-700',
+  borderClass: 'border-blue-200',
+  icon: '🔍',
+  defaultWeight: 1.0,
+});
+
+registerPlatform({
+  id: 'yelp',
+  label: 'Yelp',
+  colorClass: 'bg-red-100 text-red-700',
+  borderClass: 'border-red-200',
+  icon: '📍',
+  defaultWeight: 1.0,
+});
+
+registerPlatform({
+  id: 'tripadvisor',
+  label: 'TripAdvisor',
+  colorClass: 'bg-green-100 text-green-700',
+  borderClass: 'border-green-200',
+  icon: '🦉',
+  defaultWeight: 1.0,
+});
+
+registerPlatform({
+  id: 'foursquare',
+  label: 'Foursquare',
+  colorClass: 'bg-purple-100 text-purple-700',
+  borderClass: 'border-purple-200',
+  icon: '📌',
+  defaultWeight: 0.9,
+});
+
+registerPlatform({
+  id: 'zomato',
+  label: 'Zomato',
+  colorClass: 'bg-rose-100 text-rose-700',
+  borderClass: 'border-rose-200',
+  icon: '🍽️',
+  defaultWeight: 0.8,
+});
+
+registerPlatform({
+  id: 'opentable',
+  label: 'OpenTable',
+  colorClass: 'bg-orange-100 text-orange-700',
+  borderClass: 'border-orange-200',
+  icon: '🪑',
+  defaultWeight: 0.9,
+});
@@ -0,0 +1,216 @@
+/**
+ * Personal preferences
+ *
+ * The browser keeps a log of what the user did with each suggestion
+ * (accepted it, skipped it, ate there) in localStorage. From that log we
+ * learn a small profile - how much they like each cuisine and when they last
+ * went where - which is sent with searches and turned into a personal
+ * adjustment on top of valueScore. Favorites and the blocklist ("never show
+ * me this again") are kept alongside, keyed by place id.
+ *
+ * The store functions need a browser; the profile and scoring functions are
+ * pure and also run on the server.
+ */
+
+import { PreferenceProfile, Restaurant } from '@/types';
+import { cuisineFamily } from './cuisine';
+
+export type PreferenceAction = 'accept' | 'skip' | 'visit';
+
+export type PlaceListName = 'favorites' | 'blocked';
+
+// Place id -> name (so the lists can be shown without another lookup)
+export type PlaceLists = Record<PlaceListName, Record<string, string>>;
+
+export interface PreferenceEvent {
+  action: PreferenceAction;
+  restaurantId: string;
+  restaurantName: string;
+  cuisineIds: string[];
+  at: string; // ISO
+}
+
+const STORAGE_KEY = 'preferenceHistory';
+const LISTS_STORAGE_KEY = 'placeLists';
+const MAX_EVENTS = 500;
+
+export const DEFAULT_FAVORITE_BOOST = 0.3; // Stars added to favorites unless the client says otherwise
+
+const ACTION_WEIGHTS: Record<PreferenceAction, number> = {
+  accept: 1,
+  visit: 1,
+  skip: -0.5,
+};
+// Pseudo-count that keeps a cuisine near neutral until there's some history
+const AFFINITY_SMOOTHING = 3;
+
+export const DEFAULT_COOLDOWN_DAYS = 7;
+const CUISINE_BOOST = 0.3; // Stars added at full affinity (and removed at full aversion)
+const REVISIT_PENALTY = 0.5; // Stars removed right after a visit, fading out over the cooldown
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function loadPreferenceHistory(): PreferenceEvent[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Log what the user did with a suggestion
+ */
+export function recordPreferenceEvent(action: PreferenceAction, restaurant: Restaurant): void {
+  const event: PreferenceEvent = {
+    action,
+    restaurantId: restaurant.id,
+    restaurantName: restaurant.name,
+    cuisineIds: restaurant.cuisineIds ?? [],
+    at: new Date().toISOString(),
+  };
+  const history = [...loadPreferenceHistory(), event].slice(-MAX_EVENTS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+}
+
+export function resetPreferenceHistory(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function loadPlaceLists(): PlaceLists {
+  try {
+    return { favorites: {}, blocked: {}, ...JSON.parse(localStorage.getItem(LISTS_STORAGE_KEY) || '{}') };
+  } catch {
+    return { favorites: {}, blocked: {} };
+  }
+}
+
+/**
+ * Add a place to a list, or take it off if it's already there.
+ * A place can't be both a favorite and blocked, so adding removes it from the other list.
+ */
+export function togglePlaceList(list: PlaceListName, place: { id: string; name: string }): PlaceLists {
+  const lists = loadPlaceLists();
+  const other: PlaceListName = list === 'favorites' ? 'blocked' : 'favorites';
+
+  if (lists[list][place.id]) {
+    delete lists[list][place.id];
+  } else {
+    lists[list][place.id] = place.name;
+    delete lists[other][place.id];
+  }
+
+  localStorage.setItem(LISTS_STORAGE_KEY, JSON.stringify(lists));
+  return lists;
+}
+
+/**
+ * Learn a profile from the log
+ */
+export function buildPreferenceProfile(
+  history: PreferenceEvent[],
+  cooldownDays: number = DEFAULT_COOLDOWN_DAYS
+): PreferenceProfile {
+  const totals = new Map<string, { sum: number; count: number }>();
+  const lastVisited: Record<string, string> = {};
+
+  for (const event of history) {
+    const cuisine = event.cuisineIds[0];
+    if (cuisine) {
+      const total = totals.get(cuisine) ?? { sum: 0, count: 0 };
+      total.sum += ACTION_WEIGHTS[event.action];
+      total.count += 1;
+      totals.set(cuisine, total);
+    }
+    if (event.action !== 'skip' && (!lastVisited[event.restaurantId] || event.at > lastVisited[event.restaurantId])) {
+      lastVisited[event.restaurantId] = event.at;
+    }
+  }
+
+  const cuisineAffinity: Record<string, number> = {};
+  for (const [cuisine, { sum, count }] of totals) {
+    cuisineAffinity[cuisine] = Math.max(-1, Math.min(1, sum / (count + AFFINITY_SMOOTHING)));
+  }
+
+  return { cuisineAffinity, lastVisited, cooldownDays };
+}
+
+/**
+ * Primary cuisines of recent accepts and visits, newest first (for "surprise me")
+ */
+export function recentCuisines(history: PreferenceEvent[], limit: number = 5): string[] {
+  const recent: string[] = [];
+  for (const event of [...history].reverse()) {
+    const cuisine = event.cuisineIds[0];
+    if (event.action !== 'skip' && cuisine && !recent.includes(cuisine)) recent.push(cuisine);
+    if (recent.length >= limit) break;
+  }
+  return recent;
+}
+
+/**
+ * Why a client's preference profile can't be used, or undefined if it can.
+ * It's built in the browser, so the server checks it like any other input.
+ */
+export function preferenceProfileError(profile: unknown): string | undefined {
+  if (profile === undefined || profile === null) return undefined;
+  if (typeof profile !== 'object' || Array.isArray(profile)) return 'personalization must be an object';
+  const { cuisineAffinity, lastVisited, cooldownDays } = profile as Record<string, unknown>;
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isRecord(cuisineAffinity) || !Object.values(cuisineAffinity).every(a =>
+    typeof a === 'number' && Number.isFinite(a) && a >= -1 && a <= 1
+  )) {
+    return 'personalization.cuisineAffinity must map cuisine ids to numbers from -1 to 1';
+  }
+  if (!isRecord(lastVisited) || !Object.values(lastVisited).every(t =>
+    typeof t === 'string' && !isNaN(new Date(t).getTime())
+  )) {
+    return 'personalization.lastVisited must map restaurant ids to ISO times';
+  }
+  if (cooldownDays !== undefined && (typeof cooldownDays !== 'number' || !Number.isFinite(cooldownDays) || cooldownDays < 0)) {
+    return 'personalization.cooldownDays must be a non-negative number';
+  }
+  return undefined;
+}
+
+/**
+ * Personal re-ranking term in stars: a boost (or penalty) for how the user
+ * feels about the cuisine, and a penalty for places visited within the cooldown
+ */
+export function personalAdjustment(
+  restaurant: Restaurant,
+  profile: PreferenceProfile,
+  now: Date = new Date()
+): number {
+  let adjustment = 0;
+
+  // Direct affinity for the cuisine, or half the average across its family
+  const cuisine = restaurant.cuisineIds?.[0];
+  if (cuisine) {
+    const direct = profile.cuisineAffinity[cuisine];
+    const relatives = Object.entries(profile.cuisineAffinity)
+      .filter(([id]) => cuisineFamily(id) === cuisineFamily(cuisine))
+      .map(([, affinity]) => affinity);
+    const family = relatives.length > 0 ? relatives.reduce((sum, a) => sum + a, 0) / relatives.length : 0;
+    adjustment += (direct ?? family / 2) * CUISINE_BOOST;
+  }
+
+  const lastVisit = profile.lastVisited[restaurant.id];
+  const cooldownDays = profile.cooldownDays ?? DEFAULT_COOLDOWN_DAYS;
+  if (lastVisit && cooldownDays > 0) {
+    const daysAgo = (now.getTime() - new Date(lastVisit).getTime()) / DAY_MS;
+    if (daysAgo < cooldownDays) {
+      adjustment -= REVISIT_PENALTY * (1 - daysAgo / cooldownDays);
+    }
+  }
+
+  return Math.round(adjustment * 100) / 100;
+}
+
+/**
+ * The score results are ordered by: valueScore plus any personal adjustment
+ */
+export function rankingScore(restaurant: Restaurant): number {
+  return (restaurant.valueScore ?? restaurant.aggregatedScore) + (restaurant.personalAdjustment ?? 0);
+}
@@ -1,4 +1,5 @@
-import { Restaurant } from '@/types';
+import { CredibleInterval, RankingMode, Restaurant, ValueCurveConfig, ValueExplanation } from '@/types';
+import { getOpenStatus, parseHoursText, formatOpenUntil } from './hours';
 
 export interface RankedRestaurant extends Restaurant {
   distanceKm: number;
@@ -14,8 +15,154 @@ export interface RankingConfig {
   userLat: number;
   userLon: number;
   currentTime: Date;
+  timeZone?: string; // IANA zone of the restaurants being ranked
   exceptionalThreshold: number; // Rating threshold to allow exceeding travel time (default 4.8)
   exceptionalReviewMin: number; // Min reviews to be considered exceptional (default 500)
+  valueCurve: ValueCurveConfig;
+  mode: RankingMode; // Which rating to rank on (default 'expected')
+}
+
+/**
+ * What a client can send to tune ranking. Anything omitted uses the defaults.
+ */
+export interface RankingProfile {
+  travelAversion?: number; // 0 = don't mind travelling, 1 = hate it (default 0.5)
+  budgetSensitivity?: number; // 0 = price doesn't matter (default), 1 = strongly prefer cheap
+  valueCurve?: Partial<ValueCurveConfig>; // Explicit values win over travelAversion
+  exceptionalThreshold?: number;
+  exceptionalReviewMin?: number;
+  mode?: RankingMode;
+}
+
+export const DEFAULT_VALUE_CURVE: ValueCurveConfig = {
+  decayAtLimit: 0.3,
+  overtimeSlope: 0.4,
+  exceptionalOvertimeSlope: 0.1,
+  minTimeFactor: 0.3,
+  exceptionalBonus: 0.2,
+  pricePenaltyPerLevel: 0,
+};
+
+// Places with no price data are scored as if they were $$
+const TYPICAL_PRICE_LEVEL = 2;
+// At full budget sensitivity each extra $ costs 6% of the score
+const MAX_PRICE_PENALTY_PER_LEVEL = 0.06;
+
+export const RANKING_MODES: RankingMode[] = ['expected', 'optimistic', 'pessimistic'];
+
+export const DEFAULT_EXCEPTIONAL_THRESHOLD = 4.8;
+export const DEFAULT_EXCEPTIONAL_REVIEW_MIN = 500;
+
+// A rating this far above the threshold needs only this share of the reviews
+// (4.9 with 200 reviews at the defaults)
+const NEAR_PERFECT_MARGIN = 0.1;
+const NEAR_PERFECT_REVIEW_SHARE = 0.4;
+
+/**
+ * Value curve for a 0-1 travel aversion. 0.5 gives DEFAULT_VALUE_CURVE;
+ * lower flattens the time penalty, higher steepens it.
+ */
+export function valueCurveForAversion(travelAversion: number): ValueCurveConfig {
+  const a = Math.min(1, Math.max(0, travelAversion));
+  return {
+    decayAtLimit: 0.6 * a,
+    overtimeSlope: 0.8 * a,
+    exceptionalOvertimeSlope: 0.2 * a,
+    minTimeFactor: Math.max(0.1, 1 - 1.4 * a),
+    exceptionalBonus: DEFAULT_VALUE_CURVE.exceptionalBonus,
+    pricePenaltyPerLevel: DEFAULT_VALUE_CURVE.pricePenaltyPerLevel,
+  };
+}
+
+/**
+ * Price penalty for a 0-1 budget sensitivity
+ */
+export function pricePenaltyForBudget(budgetSensitivity: number): number {
+  return Math.min(1, Math.max(0, budgetSensitivity)) * MAX_PRICE_PENALTY_PER_LEVEL;
+}
+
+const FRACTION_CURVE_FIELDS: (keyof ValueCurveConfig)[] = ['decayAtLimit', 'minTimeFactor', 'pricePenaltyPerLevel'];
+
+/**
+ * Why a client's ranking profile can't be used, or undefined if it can.
+ * Numbers must be finite and in range so NaN never reaches the value score.
+ */
+export function rankingProfileError(profile: unknown): string | undefined {
+  if (profile === undefined) return undefined;
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+    return 'Ranking profile must be an object';
+  }
+  const { travelAversion, budgetSensitivity, valueCurve, exceptionalThreshold, exceptionalReviewMin, mode } =
+    profile as Record<string, unknown>;
+  const inRange = (value: unknown, min: number, max = Infinity) =>
+    value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
+
+  if (!inRange(travelAversion, 0, 1)) return 'travelAversion must be a number from 0 to 1';
+  if (!inRange(budgetSensitivity, 0, 1)) return 'budgetSensitivity must be a number from 0 to 1';
+  if (!inRange(exceptionalThreshold, 0, 5)) return 'exceptionalThreshold must be a rating from 0 to 5';
+  if (!inRange(exceptionalReviewMin, 0)) return 'exceptionalReviewMin must be a non-negative number';
+  if (mode !== undefined && !RANKING_MODES.includes(mode as RankingMode)) return `Unknown ranking mode: ${mode}`;
+
+  if (valueCurve === undefined) return undefined;
+  if (typeof valueCurve !== 'object' || valueCurve === null || Array.isArray(valueCurve)) {
+    return 'valueCurve must be an object';
+  }
+  for (const [field, value] of Object.entries(valueCurve)) {
+    if (!Object.hasOwn(DEFAULT_VALUE_CURVE, field)) return `Unknown valueCurve field: ${field}`;
+    if (FRACTION_CURVE_FIELDS.includes(field as keyof ValueCurveConfig)) {
+      if (!inRange(value, 0, 1)) return `valueCurve.${field} must be a number from 0 to 1`;
+    } else if (!inRange(value, 0)) {
+      return `valueCurve.${field} must be a non-negative number`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fill in a client's ranking profile with defaults
+ */
+export function resolveRankingProfile(
+  profile: RankingProfile = {}
+): Pick<RankingConfig, 'valueCurve' | 'exceptionalThreshold' | 'exceptionalReviewMin' | 'mode'> {
+  const baseCurve = profile.travelAversion !== undefined
+    ? valueCurveForAversion(profile.travelAversion)
+    : DEFAULT_VALUE_CURVE;
+  const pricePenaltyPerLevel = profile.budgetSensitivity !== undefined
+    ? pricePenaltyForBudget(profile.budgetSensitivity)
+    : baseCurve.pricePenaltyPerLevel;
+  return {
+    valueCurve: { ...baseCurve, pricePenaltyPerLevel, ...profile.valueCurve },
+    exceptionalThreshold: profile.exceptionalThreshold ?? DEFAULT_EXCEPTIONAL_THRESHOLD,
+    exceptionalReviewMin: profile.exceptionalReviewMin ?? DEFAULT_EXCEPTIONAL_REVIEW_MIN,
+    mode: profile.mode ?? 'expected',
+  };
+}
+
+/**
+ * The rating a ranking mode ranks on. Optimistic (for explorers) moves the
+ * aggregated score up by the distance to the top of its credible interval,
+ * pessimistic (for safe picks) down by the distance to the bottom - so
+ * thinly reviewed places gain or lose the most, and the weighting strategy
+ * still counts.
+ */
+export function ratingForMode(
+  aggregatedScore: number,
+  interval: CredibleInterval | undefined,
+  mode: RankingMode
+): number {
+  if (!interval) return aggregatedScore;
+  let rating: number;
+  switch (mode) {
+    case 'optimistic':
+      rating = aggregatedScore + (interval.upper - interval.mean);
+      break;
+    case 'pessimistic':
+      rating = aggregatedScore - (interval.mean - interval.lower);
+      break;
+    default:
+      return aggregatedScore;
+  }
+  return Math.round(Math.min(5, Math.max(1, rating)) * 100) / 100;
 }
 
 /**
@@ -25,42 +172,73 @@ export interface RankingConfig {
  * better than a 4.7 star place 20 min away. But a true exceptional place
  * (Michelin-level, 4.8+ with lots of reviews) might be worth the trip.
  * 
- * Formula: valueScore = rating * timeFactor
- * Where timeFactor decreases as travel time increases
+ * Formula: valueScore = rating * timeFactor * priceFactor
+ * Where timeFactor decreases as travel time increases, and priceFactor
+ * (1 unless the curve has a price penalty) decreases with each extra $
  */
 export function calculateValueScore(
   rating: number,
   travelTimeMin: number,
   maxTravelTimeMin: number,
-  isExceptional: boolean
+  isExceptional: boolean,
+  curve: ValueCurveConfig = DEFAULT_VALUE_CURVE,
+  priceLevel?: number // 1-4
 ): number {
+  return explainValueScore(rating, travelTimeMin, maxTravelTimeMin, isExceptional, curve, priceLevel).score;
+}
+
+/**
+ * calculateValueScore, with the factors that went into it
+ */
+export function explainValueScore(
+  rating: number,
+  travelTimeMin: number,
+  maxTravelTimeMin: number,
+  isExceptional: boolean,
+  curve: ValueCurveConfig = DEFAULT_VALUE_CURVE,
+  priceLevel?: number // 1-4
+): ValueExplanation {
   // Time penalty: closer = better
   // At 0 min: factor = 1.0
-  // At maxTravelTime: factor = 0.7
+  // At maxTravelTime: factor = 1 - decayAtLimit (0.7 by default)
   // Beyond maxTravelTime: factor drops more steeply (unless exceptional)
   
   let timeFactor: number;
+  const factorAtLimit = 1 - curve.decayAtLimit;
   
   if (travelTimeMin <= maxTravelTimeMin) {
     // Linear decay within acceptable range
-    timeFactor = 1 - (travelTimeMin / maxTravelTimeMin) * 0.3;
+    timeFactor = 1 - (travelTimeMin / maxTravelTimeMin) * curve.decayAtLimit;
   } else if (isExceptional) {
     // Exceptional places get gentler penalty beyond threshold
     const overtime = travelTimeMin - maxTravelTimeMin;
-    timeFactor = 0.7 - (overtime / maxTravelTimeMin) * 0.1;
+    timeFactor = factorAtLimit - (overtime / maxTravelTimeMin) * curve.exceptionalOvertimeSlope;
   } else {
     // Non-exceptional places get steep penalty beyond threshold
     const overtime = travelTimeMin - maxTravelTimeMin;
-    timeFactor = 0.7 - (overtime / maxTravelTimeMin) * 0.4;
+    timeFactor = factorAtLimit - (overtime / maxTravelTimeMin) * curve.overtimeSlope;
   }
   
-  // Ensure timeFactor doesn't go below 0.3
-  timeFactor = Math.max(0.3, timeFactor);
+  // Ensure timeFactor doesn't go below the floor
+  timeFactor = Math.max(curve.minTimeFactor, timeFactor);
   
-  // Exceptional bonus: add 0.2 to rating for truly special places
-  const effectiveRating = isExceptional ? rating + 0.2 : rating;
+  // Budget penalty: a $$ 4.5 can beat a $$$$ 4.6 when price matters
+  const level = priceLevel ?? TYPICAL_PRICE_LEVEL;
+  const priceFactor = 1 - curve.pricePenaltyPerLevel * (level - 1);
+
+  // Exceptional bonus for truly special places
+  const exceptionalBonus = isExceptional ? curve.exceptionalBonus : 0;
+  const effectiveRating = rating + exceptionalBonus;
   
-  return Math.round(effectiveRating * timeFactor * 100) / 100;
+  return {
+    score: Math.round(effectiveRating * timeFactor * priceFactor * 100) / 100,
+    rating,
+    exceptionalBonus,
+    timeFactor: Math.round(timeFactor * 1000) / 1000,
+    priceFactor: Math.round(priceFactor * 1000) / 1000,
+    travelTimeMin,
+    maxTravelTimeMin,
+  };
 }
 
 /**
@@ -69,12 +247,13 @@ export function calculateValueScore(
  * Criteria:
  * - Rating >= threshold (default 4.8)
  * - Sufficient reviews to trust the rating (default 500+)
+ * - OR a rating a notch above the threshold with fewer reviews (default 4.9, 200+)
  * - OR has special indicators (Michelin, James Beard, etc.)
  */
 export function isExceptionalRestaurant(
   restaurant: Restaurant,
-  threshold: number = 4.8,
-  minReviews: number = 500
+  threshold: number = DEFAULT_EXCEPTIONAL_THRESHOLD,
+  minReviews: number = DEFAULT_EXCEPTIONAL_REVIEW_MIN
 ): boolean {
   const totalReviews = restaurant.reviews.reduce((sum, r) => sum + r.reviewCount, 0);
   
@@ -83,8 +262,11 @@ export function isExceptionalRestaurant(
     return true;
   }
   
-  // Very high rating (4.9+) with moderate reviews
-  if (restaurant.aggregatedScore >= 4.9 && totalReviews >= 200) {
+  // Very high rating with moderate reviews
+  if (
+    restaurant.aggregatedScore >= Math.min(5, threshold + NEAR_PERFECT_MARGIN) &&
+    totalReviews >= minReviews * NEAR_PERFECT_REVIEW_SHARE
+  ) {
     return true;
   }
   
@@ -99,58 +281,18 @@ export function isExceptionalRestaurant(
 }
 
 /**
- * Check if a restaurant is currently open
- * This is a simplified version - real implementation would use Google Places API
- * or scrape hours from the restaurant pages
+ * Check if a restaurant is open, from "Mon: 11:00 AM - 10:00 PM" style hours
+ * (see lib/hours for the formats understood), on the restaurant's local clock
  */
 export function checkIfOpen(
   hours: string[] | undefined,
-  currentTime: Date
+  currentTime: Date,
+  timeZone?: string
 ): { isOpen: boolean; openUntil?: string } {
-  // If we don't have hours data, assume open (will be filtered by real data later)
-  if (!hours || hours.length === 0) {
-    return { isOpen: true };
-  }
-  
-  const dayOfWeek = currentTime.getDay(); // 0 = Sunday
-  const currentHour = currentTime.getHours();
-  const currentMinute = currentTime.getMinutes();
-  const currentTimeNum = currentHour * 60 + currentMinute;
-  
-  // Parse hours for today (format expected: "Mon: 11:00 AM - 10:00 PM")
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const todayHours = hours.find(h => h.startsWith(dayNames[dayOfWeek]));
-  
-  if (!todayHours) {
-    return { isOpen: true }; // Assume open if no data for today
-  }
-  
-  if (todayHours.toLowerCase().includes('closed')) {
-    return { isOpen: false };
-  }
-  
-  // Parse time range
-  const timeMatch = todayHours.match(/(\d{1,2}):?(\d{2})?\s*(AM|PM)?\s*-\s*(\d{1,2}):?(\d{2})?\s*(AM|PM)?/i);
-  if (!timeMatch) {
-    return { isOpen: true };
-  }
-  
-  const parseTime = (hour: string, minute: string | undefined, ampm: string | undefined): number => {
-    let h = parseInt(hour, 10);
-    const m = minute ? parseInt(minute, 10) : 0;
-    if (ampm?.toUpperCase() === 'PM' && h !== 12) h += 12;
-    if (ampm?.toUpperCase() === 'AM' && h === 12) h = 0;
-    return h * 60 + m;
-  };
-  
-  const openTime = parseTime(timeMatch[1], timeMatch[2], timeMatch[3]);
-  const closeTime = parseTime(timeMatch[4], timeMatch[5], timeMatch[6]);
-  
-  const isOpen = currentTimeNum >= openTime && currentTimeNum < closeTime;
-  
+  const status = getOpenStatus(parseHoursText(hours), currentTime, timeZone);
   return {
-    isOpen,
-    openUntil: isOpen ? `${timeMatch[4]}:${timeMatch[5] || '00'} ${timeMatch[6] || 'PM'}` : undefined,
+    isOpen: status.isOpen,
+    openUntil: formatOpenUntil(status, timeZone),
   };
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Review freshness
+ *
+ * Lifetime ratings move slowly: a place that changed hands last spring can
+ * sit on years of good reviews. Google Places and Yelp share a handful of
+ * each place's newest reviews. From those we work out a recent-window
+ * rating, blend it into the lifetime one for the recency_weighted strategy,
+ * and flag places whose recent rating has moved sharply either way.
+ */
+
+import { PlatformReview, ReviewSample, ReviewTrend } from '@/types';
+
+export const DEFAULT_RECENT_WINDOW_DAYS = 180;
+// Pseudo-count for the blend: a few recent reviews only nudge the lifetime rating
+const RECENCY_SMOOTHING = 5;
+const MAX_RECENT_WEIGHT = 0.5;
+// A trend needs this many recent reviews and at least this big a move (in stars).
+// With only 5-8 samples, the move also has to clear the noise of that many
+// single reviews: TREND_Z standard errors of REVIEW_SD stars each.
+const TREND_MIN_SAMPLES = 5;
+const TREND_THRESHOLD = 0.75;
+const REVIEW_SD = 1.2;
+const TREND_Z = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Samples written within the window
+ */
+export function recentSamples(
+  samples: ReviewSample[] = [],
+  windowDays: number = DEFAULT_RECENT_WINDOW_DAYS,
+  now: Date = new Date()
+): ReviewSample[] {
+  const since = now.getTime() - windowDays * DAY_MS;
+  return samples.filter(s => new Date(s.time).getTime() >= since);
+}
+
+/**
+ * Average of a platform's recent reviews, if it has any in the window
+ */
+export function recentRating(
+  review: PlatformReview,
+  windowDays: number = DEFAULT_RECENT_WINDOW_DAYS,
+  now: Date = new Date()
+): { rating: number; count: number } | undefined {
+  const recent = recentSamples(review.recentReviews, windowDays, now);
+  if (recent.length === 0) return undefined;
+  return {
+    rating: recent.reduce((sum, s) => sum + s.rating, 0) / recent.length,
+    count: recent.length,
+  };
+}
+
+/**
+ * A platform's rating with its recent reviews blended in. Samples are raw
+ * stars, so the recent move is measured against the raw rating and applied
+ * to the (possibly calibrated) one.
+ */
+export function recencyBlendedRating(
+  review: PlatformReview,
+  windowDays: number = DEFAULT_RECENT_WINDOW_DAYS,
+  now: Date = new Date()
+): number {
+  const recent = recentRating(review, windowDays, now);
+  if (!recent) return review.rating;
+  const weight = Math.min(MAX_RECENT_WEIGHT, recent.count / (recent.count + RECENCY_SMOOTHING));
+  const blended = review.rating + weight * (recent.rating - (review.rawRating ?? review.rating));
+  return Math.min(5, Math.max(1, blended));
+}
+
+/**
+ * Whether recent reviews across all platforms are sharply better or worse
+ * than the lifetime ratings
+ */
+export function detectTrend(
+  reviews: PlatformReview[],
+  windowDays: number = DEFAULT_RECENT_WINDOW_DAYS,
+  now: Date = new Date()
+): ReviewTrend | undefined {
+  const withRecent = reviews
+    .map(review => ({ review, recent: recentRating(review, windowDays, now) }))
+    .filter((r): r is { review: PlatformReview; recent: { rating: number; count: number } } => !!r.recent);
+
+  const sampleSize = withRecent.reduce((sum, r) => sum + r.recent.count, 0);
+  if (sampleSize < TREND_MIN_SAMPLES) return undefined;
+
+  // Compare like with like: each platform's recent stars against its own lifetime rating
+  const recent = withRecent.reduce((sum, r) => sum + r.recent.rating * r.recent.count, 0) / sampleSize;
+  const lifetime = withRecent.reduce(
+    (sum, r) => sum + (r.review.rawRating ?? r.review.rating) * r.recent.count,
+    0
+  ) / sampleSize;
+
+  const change = recent - lifetime;
+  const noise = (TREND_Z * REVIEW_SD) / Math.sqrt(sampleSize);
+  if (Math.abs(change) < Math.max(TREND_THRESHOLD, noise)) return undefined;
+
+  return {
+    direction: change > 0 ? 'up' : 'down',
+    recentRating: Math.round(recent * 100) / 100,
+    lifetimeRating: Math.round(lifetime * 100) / 100,
+    sampleSize,
+  };
+}
@@ -0,0 +1,25 @@
+import { Coordinates } from '@/lib/geolocation';
+import { TravelMode } from '@/types';
+
+export type { TravelMode };
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'bike', 'drive', 'transit'];
+
+export const TRAVEL_MODE_DISPLAY: Record<TravelMode, { label: string; icon: string }> = {
+  walk: { label: 'Walk', icon: '🚶' },
+  bike: { label: 'Bike', icon: '🚲' },
+  drive: { label: 'Drive', icon: '🚗' },
+  transit: { label: 'Transit', icon: '🚇' },
+};
+
+// Minutes per mode; a mode is missing when the backend can't route it
+export type TravelTimes = Partial<Record<TravelMode, number>>;
+
+export interface RoutingBackend {
+  name: string;
+  /**
+   * Travel times from one origin to every destination, in destination order.
+   * Implementations should make one matrix request per mode, not one per destination.
+   */
+  travelTimes(origin: Coordinates, destinations: Coordinates[]): Promise<TravelTimes[]>;
+}
@@ -0,0 +1,34 @@
+import {
+  Coordinates,
+  calculateDistance,
+  estimateWalkTime,
+  estimateBikeTime,
+  estimateDriveTime,
+  estimateTransitTime,
+} from '@/lib/geolocation';
+import { RoutingBackend, TravelTimes } from './base';
+
+/**
+ * Straight-line (Haversine) distance at average speeds per mode.
+ * Needs no network, so it's the fallback for every other backend.
+ */
+export class HeuristicRouter implements RoutingBackend {
+  name = 'heuristic';
+
+  async travelTimes(origin: Coordinates, destinations: Coordinates[]): Promise<TravelTimes[]> {
+    return destinations.map(destination => {
+      const distanceKm = calculateDistance(
+        origin.latitude,
+        origin.longitude,
+        destination.latitude,
+        destination.longitude
+      );
+      return {
+        walk: estimateWalkTime(distanceKm),
+        bike: estimateBikeTime(distanceKm),
+        drive: estimateDriveTime(distanceKm),
+        transit: estimateTransitTime(distanceKm),
+      };
+    });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Travel time routing
+ *
+ * A configured routing backend (see osrm.ts) supplies road-network times;
+ * anything it can't answer - a mode it doesn't route, a timeout, no server -
+ * falls back to the straight-line heuristic.
+ */
+
+import { Coordinates } from '@/lib/geolocation';
+import { TravelMode, TravelModePreference } from '@/types';
+import { RoutingBackend, TravelTimes, TRAVEL_MODES } from './base';
+import { HeuristicRouter } from './heuristic';
+import { OsrmRouter } from './osrm';
+
+export { HeuristicRouter, OsrmRouter, TRAVEL_MODES };
+export type { RoutingBackend, TravelMode, TravelTimes } from './base';
+
+// Typical door-to-door urban speeds, used to size the search area per mode
+const SEARCH_SPEED_KMH: Record<TravelMode, number> = {
+  walk: 5,
+  bike: 15,
+  drive: 24,
+  transit: 18,
+};
+
+const fallback = new HeuristicRouter();
+let backend: RoutingBackend | null = process.env.ROUTING_URL ? new OsrmRouter(process.env.ROUTING_URL) : null;
+
+/**
+ * Swap the primary routing backend (null = heuristic only)
+ */
+export function setRoutingBackend(next: RoutingBackend | null): void {
+  backend = next;
+}
+
+/**
+ * Walk/bike/drive/transit minutes from `origin` to every destination, as one batch.
+ * Every mode is always filled in.
+ */
+export async function getTravelTimeMatrix(
+  origin: Coordinates,
+  destinations: Coordinates[]
+): Promise<Required<TravelTimes>[]> {
+  if (destinations.length === 0) return [];
+
+  const estimates = await fallback.travelTimes(origin, destinations);
+  if (!backend) {
+    return estimates as Required<TravelTimes>[];
+  }
+
+  let routed: TravelTimes[] = [];
+  try {
+    routed = await backend.travelTimes(origin, destinations);
+  } catch (error) {
+    console.error(`Routing backend ${backend.name} failed:`, error);
+  }
+
+  return estimates.map((estimate, i) => {
+    const merged = { ...estimate };
+    for (const mode of TRAVEL_MODES) {
+      const minutes = routed[i]?.[mode];
+      if (minutes !== undefined) merged[mode] = minutes;
+    }
+    return merged as Required<TravelTimes>;
+  });
+}
+
+/**
+ * The time that counts for a travel preference, and which mode it came from.
+ * 'best' picks the fastest mode for this destination.
+ */
+export function pickTravelTime(
+  times: Required<TravelTimes>,
+  preference: TravelModePreference
+): { mode: TravelMode; minutes: number } {
+  if (preference !== 'best') {
+    return { mode: preference, minutes: times[preference] };
+  }
+  return TRAVEL_MODES
+    .map(mode => ({ mode, minutes: times[mode] }))
+    .reduce((best, t) => (t.minutes < best.minutes ? t : best));
+}
+
+/**
+ * Search radius (meters) reachable within `maxTravelTimeMin` for a travel preference
+ */
+export function searchRadiusMeters(maxTravelTimeMin: number, preference: TravelModePreference): number {
+  const speedKmH = preference === 'best'
+    ? Math.max(...Object.values(SEARCH_SPEED_KMH))
+    : SEARCH_SPEED_KMH[preference];
+  // Google Places caps the nearby radius at 50km
+  return Math.min(50000, Math.round((maxTravelTimeMin / 60) * speedKmH * 1000));
+}
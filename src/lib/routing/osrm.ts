@@ -0,0 +1,81 @@
+import { Coordinates } from '@/lib/geolocation';
+import { RoutingBackend, TravelMode, TravelTimes } from './base';
+
+// OSRM profile names for the modes it can route (no transit)
+const OSRM_PROFILES: Partial<Record<TravelMode, string>> = {
+  walk: 'foot',
+  bike: 'bike',
+  drive: 'car',
+};
+
+const ROUTING_TIMEOUT = 4000;
+
+/**
+ * Road-network travel times from an OSRM-compatible server's Table service
+ * (OSRM itself, or a Valhalla/GraphHopper stand-in exposing the same API).
+ *
+ * Set ROUTING_URL, e.g. http://localhost:5000
+ * Servers that host one profile per port can be listed per mode with
+ * ROUTING_URL_WALK / ROUTING_URL_BIKE / ROUTING_URL_DRIVE.
+ */
+export class OsrmRouter implements RoutingBackend {
+  name = 'osrm';
+
+  constructor(private baseUrl: string) {}
+
+  private urlFor(mode: TravelMode): string {
+    const override = process.env[`ROUTING_URL_${mode.toUpperCase()}`];
+    return (override || this.baseUrl).replace(/\/$/, '');
+  }
+
+  /**
+   * One Table request: origin as the only source, every destination as targets
+   */
+  private async table(mode: TravelMode, origin: Coordinates, destinations: Coordinates[]): Promise<(number | undefined)[]> {
+    const profile = OSRM_PROFILES[mode]!;
+    // OSRM wants lon,lat pairs separated by semicolons
+    const coords = [origin, ...destinations].map(c => `${c.longitude},${c.latitude}`).join(';');
+    const url = new URL(`${this.urlFor(mode)}/table/v1/${profile}/${coords}`);
+    url.searchParams.set('sources', '0');
+    url.searchParams.set('annotations', 'duration');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ROUTING_TIMEOUT);
+    try {
+      const response = await fetch(url.toString(), { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`OSRM ${profile} table failed: ${response.status}`);
+      }
+      const data = await response.json();
+      if (data.code !== 'Ok') {
+        throw new Error(`OSRM ${profile} table failed: ${data.code}`);
+      }
+      // durations[0] is the origin row: [origin->origin, origin->dest1, ...] in seconds
+      const row: (number | null)[] = data.durations[0].slice(1);
+      return row.map(seconds => (seconds === null ? undefined : Math.round(seconds / 60)));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async travelTimes(origin: Coordinates, destinations: Coordinates[]): Promise<TravelTimes[]> {
+    const modes = Object.keys(OSRM_PROFILES) as TravelMode[];
+    const results: TravelTimes[] = destinations.map(() => ({}));
+
+    // A failing profile just leaves that mode empty for the fallback to fill
+    await Promise.all(
+      modes.map(async mode => {
+        try {
+          const minutes = await this.table(mode, origin, destinations);
+          minutes.forEach((m, i) => {
+            if (m !== undefined) results[i][mode] = m;
+          });
+        } catch (error) {
+          console.error('Routing error:', error instanceof Error ? error.message : error);
+        }
+      })
+    );
+
+    return results;
+  }
+}
@@ -1,32 +1,55 @@
-import { PlatformReview, WeightingConfig, WeightingStrategy } from '@/types';
-
-const DEFAULT_PLATFORM_WEIGHTS: Record<string, number> = {
-  google: 1.0,
-  yelp: 1.0,
-  tripadvisor: 1.0,
-  foursquare: 0.9,
-  zomato: 0.8,
+import {
+  AggregateExplanation,
+  ConfidenceExplanation,
+  CredibleInterval,
+  PlatformReview,
+  ReviewAnomaly,
+  WeightingConfig,
+  WeightingStrategy,
+} from '@/types';
+import { getPlatformInfo, getDefaultPlatformWeights } from './platforms';
+import { recencyBlendedRating, DEFAULT_RECENT_WINDOW_DAYS } from './recency';
+import { anomalyWeight } from './anomaly';
+
+/**
+ * Every strategy is a weighted average: each platform's rating (possibly
+ * adjusted) and how much it counts
+ */
+interface WeightedRating {
+  rating: number;
+  weight: number;
+}
+
+// How much each confidence component counts
+export const CONFIDENCE_WEIGHTS = {
+  platform: 0.3,
+  volume: 0.4,
+  consistency: 0.3,
 };
 
+// Credible interval model: a prior of an average place worth a few reviews,
+// and the usual spread of individual star ratings around a place's true mean
+const INTERVAL_PRIOR_MEAN = 3.5;
+const INTERVAL_PRIOR_REVIEWS = 10;
+const RATING_SD = 1.0;
+export const CREDIBLE_LEVEL = 0.9;
+const CREDIBLE_Z = 1.645; // Two-sided 90% for a normal
+
 /**
  * Simple average - equal weight to all platforms
  */
-function simpleAverage(reviews: PlatformReview[]): number {
-  if (reviews.length === 0) return 0;
-  const sum = reviews.reduce((acc, r) => acc + r.rating, 0);
-  return sum / reviews.length;
+function simpleAverage(reviews: PlatformReview[]): WeightedRating[] {
+  return reviews.map(r => ({ rating: r.rating, weight: 1 }));
 }
 
 /**
  * Review count weighted - platforms with more reviews have more influence
  */
-function reviewCountWeighted(reviews: PlatformReview[]): number {
-  if (reviews.length === 0) return 0;
+function reviewCountWeighted(reviews: PlatformReview[]): WeightedRating[] {
   const totalReviews = reviews.reduce((acc, r) => acc + r.reviewCount, 0);
   if (totalReviews === 0) return simpleAverage(reviews);
-  
-  const weightedSum = reviews.reduce((acc, r) => acc + r.rating * r.reviewCount, 0);
-  return weightedSum / totalReviews;
+
+  return reviews.map(r => ({ rating: r.rating, weight: r.reviewCount }));
 }
 
 /**
@@ -38,31 +61,21 @@ function bayesianAverage(
   reviews: PlatformReview[],
   prior: number = 3.5,
   minReviews: number = 10
-): number {
-  if (reviews.length === 0) return 0;
-  
+): WeightedRating[] {
   // Calculate per-platform Bayesian scores, then average
-  const bayesianScores = reviews.map(r => {
+  return reviews.map(r => {
     const n = r.reviewCount;
     const rating = r.rating;
-    return (minReviews * prior + n * rating) / (minReviews + n);
+    return { rating: (minReviews * prior + n * rating) / (minReviews + n), weight: 1 };
   });
-  
-  return bayesianScores.reduce((a, b) => a + b, 0) / bayesianScores.length;
 }
 
 /**
  * Confidence weighted - higher weight to platforms with more reviews for this restaurant
  * Uses log scale to prevent extreme dominance by high-review platforms
  */
-function confidenceWeighted(reviews: PlatformReview[]): number {
-  if (reviews.length === 0) return 0;
-  
-  const weights = reviews.map(r => Math.log10(r.reviewCount + 1) + 1);
-  const totalWeight = weights.reduce((a, b) => a + b, 0);
-  
-  const weightedSum = reviews.reduce((acc, r, i) => acc + r.rating * weights[i], 0);
-  return weightedSum / totalWeight;
+function confidenceWeighted(reviews: PlatformReview[]): WeightedRating[] {
+  return reviews.map(r => ({ rating: r.rating, weight: Math.log10(r.reviewCount + 1) + 1 }));
 }
 
 /**
@@ -71,63 +84,100 @@ function confidenceWeighted(reviews: PlatformReview[]): number {
 function platformTrustWeighted(
   reviews: PlatformReview[],
   platformWeights: Record<string, number>
-): number {
-  if (reviews.length === 0) return 0;
-  
-  const weights = reviews.map(r => platformWeights[r.platform] ?? 1.0);
-  const totalWeight = weights.reduce((a, b) => a + b, 0);
-  
-  const weightedSum = reviews.reduce((acc, r, i) => acc + r.rating * weights[i], 0);
-  return weightedSum / totalWeight;
+): WeightedRating[] {
+  return reviews.map(r => ({
+    rating: r.rating,
+    weight: platformWeights[r.platform] ?? getPlatformInfo(r.platform).defaultWeight,
+  }));
 }
 
 /**
- * Calculate aggregated score based on weighting strategy
+ * Recency weighted - each platform's lifetime rating blended with its recent
+ * reviews (see lib/recency), then weighted like confidence_weighted
  */
-export function calculateAggregatedScore(
-  reviews: PlatformReview[],
-  config: WeightingConfig
-): number {
-  if (reviews.length === 0) return 0;
-
-  let score: number;
+function recencyWeighted(reviews: PlatformReview[], windowDays: number): WeightedRating[] {
+  return reviews.map(r => ({
+    rating: recencyBlendedRating(r, windowDays),
+    weight: Math.log10(r.reviewCount + 1) + 1,
+  }));
+}
 
+function weightedRatings(reviews: PlatformReview[], config: WeightingConfig): WeightedRating[] {
   switch (config.strategy) {
     case 'simple_average':
-      score = simpleAverage(reviews);
-      break;
+      return simpleAverage(reviews);
     case 'review_count_weighted':
-      score = reviewCountWeighted(reviews);
-      break;
+      return reviewCountWeighted(reviews);
     case 'bayesian_average':
-      score = bayesianAverage(
+      return bayesianAverage(
         reviews,
         config.bayesianPrior ?? 3.5,
         config.bayesianMinReviews ?? 10
       );
-      break;
     case 'confidence_weighted':
-      score = confidenceWeighted(reviews);
-      break;
+      return confidenceWeighted(reviews);
     case 'platform_trust':
-      score = platformTrustWeighted(
+      return platformTrustWeighted(
         reviews,
-        config.platformWeights ?? DEFAULT_PLATFORM_WEIGHTS
+        config.platformWeights ?? getDefaultPlatformWeights()
       );
-      break;
+    case 'recency_weighted':
+      return recencyWeighted(reviews, config.recentWindowDays ?? DEFAULT_RECENT_WINDOW_DAYS);
     default:
-      score = simpleAverage(reviews);
+      return simpleAverage(reviews);
   }
+}
+
+/**
+ * Aggregated score with each platform's share of it. Platforms flagged in
+ * `anomalies` (see lib/anomaly) count for less, whatever the strategy.
+ */
+export function explainAggregatedScore(
+  reviews: PlatformReview[],
+  config: WeightingConfig,
+  anomalies: ReviewAnomaly[] = []
+): AggregateExplanation {
+  if (reviews.length === 0) return { strategy: config.strategy, score: 0, platforms: [] };
+
+  const weighted = weightedRatings(reviews, config).map((w, i) => ({
+    ...w,
+    weight: w.weight * anomalyWeight(reviews[i].platform, anomalies),
+  }));
+  const totalWeight = weighted.reduce((acc, w) => acc + w.weight, 0);
+  const score = weighted.reduce((acc, w) => acc + w.rating * w.weight, 0) / totalWeight;
+
+  const platforms = reviews.map((r, i) => {
+    const weight = weighted[i].weight / totalWeight;
+    return {
+      platform: r.platform,
+      rating: r.rating,
+      rawRating: r.rawRating !== undefined && r.rawRating !== r.rating ? r.rawRating : undefined,
+      adjustedRating: Math.round(weighted[i].rating * 100) / 100,
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round(weighted[i].rating * weight * 100) / 100,
+    };
+  });
 
   // Round to 2 decimal places
-  return Math.round(score * 100) / 100;
+  return { strategy: config.strategy, score: Math.round(score * 100) / 100, platforms };
 }
 
 /**
- * Calculate confidence score (0-1) based on data quality
+ * Calculate aggregated score based on weighting strategy
  */
-export function calculateConfidence(reviews: PlatformReview[]): number {
-  if (reviews.length === 0) return 0;
+export function calculateAggregatedScore(
+  reviews: PlatformReview[],
+  config: WeightingConfig,
+  anomalies: ReviewAnomaly[] = []
+): number {
+  return explainAggregatedScore(reviews, config, anomalies).score;
+}
+
+/**
+ * Confidence score with the components it's made of
+ */
+export function explainConfidence(reviews: PlatformReview[]): ConfidenceExplanation {
+  if (reviews.length === 0) return { score: 0, platform: 0, volume: 0, consistency: 0 };
 
   // Factors:
   // 1. Number of platforms (more = better)
@@ -144,8 +194,54 @@ export function calculateConfidence(reviews: PlatformReview[]): number {
   const consistencyScore = Math.max(0, 1 - variance / 2); // Variance of 2 = 0 confidence
 
   // Weighted combination
-  const confidence = platformScore * 0.3 + reviewScore * 0.4 + consistencyScore * 0.3;
-  return Math.round(confidence * 100) / 100;
+  const confidence =
+    platformScore * CONFIDENCE_WEIGHTS.platform +
+    reviewScore * CONFIDENCE_WEIGHTS.volume +
+    consistencyScore * CONFIDENCE_WEIGHTS.consistency;
+  return {
+    score: Math.round(confidence * 100) / 100,
+    platform: Math.round(platformScore * 100) / 100,
+    volume: Math.round(reviewScore * 100) / 100,
+    consistency: Math.round(consistencyScore * 100) / 100,
+  };
+}
+
+/**
+ * Calculate confidence score (0-1) based on data quality
+ */
+export function calculateConfidence(reviews: PlatformReview[]): number {
+  return explainConfidence(reviews).score;
+}
+
+/**
+ * Credible interval for the true rating
+ *
+ * Pools every platform's reviews into one normal model around a prior: the
+ * posterior mean is (C × m + Σ nᵢrᵢ) / (C + N), and its variance is the
+ * sampling noise RATING_SD² / (C + N) plus, when platforms disagree, their
+ * spread around that mean weighted by each one's share of the reviews (we
+ * can't tell which of them is right, but a handful of reviews barely moves it).
+ */
+export function calculateCredibleInterval(reviews: PlatformReview[]): CredibleInterval {
+  const totalReviews = reviews.reduce((acc, r) => acc + r.reviewCount, 0);
+  const pseudoCount = INTERVAL_PRIOR_REVIEWS + totalReviews;
+  const mean = (INTERVAL_PRIOR_REVIEWS * INTERVAL_PRIOR_MEAN +
+    reviews.reduce((acc, r) => acc + r.rating * r.reviewCount, 0)) / pseudoCount;
+
+  const sampling = Math.pow(RATING_SD, 2) / pseudoCount;
+  const disagreement = reviews.reduce(
+    (acc, r) => acc + Math.pow(r.reviewCount / pseudoCount, 2) * Math.pow(r.rating - mean, 2),
+    0
+  );
+  const margin = CREDIBLE_Z * Math.sqrt(sampling + disagreement);
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    mean: round(mean),
+    lower: round(Math.max(1, mean - margin)),
+    upper: round(Math.min(5, mean + margin)),
+    level: CREDIBLE_LEVEL,
+  };
 }
 
 /**
@@ -158,6 +254,7 @@ export function getStrategyDescription(strategy: WeightingStrategy): string {
     bayesian_average: 'Adjusts for low review counts. Prevents 5-star with 2 reviews from dominating.',
     confidence_weighted: 'Uses log-scale review counts. Balanced approach to volume vs. rating.',
     platform_trust: 'You assign custom weights per platform based on your trust level.',
+    recency_weighted: 'Blends in the last few months of reviews. Catches places getting better or worse.',
   };
   return descriptions[strategy];
 }
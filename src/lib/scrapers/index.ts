@@ -1,35 +1,52 @@
-import { PlatformReview, ScrapingResult } from '@/types';
+import { PlatformId, PlatformReview, ScrapingResult } from '@/types';
 import { GoogleScraper } from './google';
 import { YelpScraper } from './yelp';
 import { TripAdvisorScraper } from './tripadvisor';
 import { FoursquareScraper } from './foursquare';
+import { ZomatoScraper } from './zomato';
 import { BaseScraper } from './base';
 
-export { GoogleScraper, YelpScraper, TripAdvisorScraper, FoursquareScraper };
+export { GoogleScraper, YelpScraper, TripAdvisorScraper, FoursquareScraper, ZomatoScraper };
+
+const scraperFactories = new Map<string, () => BaseScraper>();
+
+/**
+ * Register a scraper for a platform. scrapeAllPlatforms picks it up automatically.
+ */
+export function registerScraper(platform: PlatformId, factory: () => BaseScraper): void {
+  scraperFactories.set(platform, factory);
+}
+
+/**
+ * Platforms that have a registered scraper
+ */
+export function getScraperPlatforms(): PlatformId[] {
+  return Array.from(scraperFactories.keys());
+}
+
+registerScraper('google', () => new GoogleScraper());
+registerScraper('yelp', () => new YelpScraper());
+registerScraper('tripadvisor', () => new TripAdvisorScraper());
+registerScraper('foursquare', () => new FoursquareScraper());
+registerScraper('zomato', () => new ZomatoScraper());
 
 export async function scrapeAllPlatforms(
   query: string,
   location: string,
-  platforms: PlatformReview['platform'][] = ['google', 'yelp', 'tripadvisor', 'foursquare']
+  platforms: PlatformId[] = getScraperPlatforms()
 ): Promise<{ results: PlatformReview[]; errors: Record<string, string> }> {
-  const scraperMap: Record<string, BaseScraper> = {
-    google: new GoogleScraper(),
-    yelp: new YelpScraper(),
-    tripadvisor: new TripAdvisorScraper(),
-    foursquare: new FoursquareScraper(),
-  };
-
   const results: PlatformReview[] = [];
   const errors: Record<string, string> = {};
 
   // Run scrapers in parallel for speed
   const scrapePromises = platforms.map(async (platform) => {
-    const scraper = scraperMap[platform];
-    if (!scraper) {
+    const createScraper = scraperFactories.get(platform);
+    if (!createScraper) {
       errors[platform] = `Unknown platform: ${platform}`;
       return;
     }
 
+    const scraper = createScraper();
     try {
       const result: ScrapingResult = await scraper.scrape(query, location);
       if (result.success && result.data) {
@@ -0,0 +1,68 @@
+import { Page } from 'playwright';
+import { PlatformReview } from '@/types';
+import { BaseScraper } from './base';
+
+export class ZomatoScraper extends BaseScraper {
+  platform: PlatformReview['platform'] = 'zomato';
+
+  searchUrl(query: string, location: string): string {
+    const searchQuery = encodeURIComponent(`${query} ${location}`);
+    return `https://www.zomato.com/search?q=${searchQuery}`;
+  }
+
+  async parseResults(page: Page): Promise<PlatformReview | null> {
+    try {
+      // Follow the first restaurant result to its page
+      const restaurantLink = await page.$('a[href*="/info"], a[href*="/order"]');
+      if (restaurantLink) {
+        const href = await restaurantLink.getAttribute('href');
+        if (href) {
+          const fullUrl = href.startsWith('http') ? href : `https://www.zomato.com${href}`;
+          await page.goto(fullUrl, { waitUntil: 'domcontentloaded' });
+          await page.waitForTimeout(2000);
+        }
+      }
+
+      // Restaurant pages carry schema.org structured data
+      const structuredData = await page.evaluate(() => {
+        const scripts = document.querySelectorAll('script[type="application/ld+json"]');
+        for (const script of scripts) {
+          try {
+            const data = JSON.parse(script.textContent || '');
+            const items = Array.isArray(data) ? data : [data];
+            for (const item of items) {
+              if (item.aggregateRating) {
+                return item.aggregateRating;
+              }
+            }
+          } catch {
+            continue;
+          }
+        }
+        return null;
+      });
+
+      if (!structuredData) {
+        return null;
+      }
+
+      const rating = parseFloat(structuredData.ratingValue);
+      const reviewCount = parseInt(structuredData.ratingCount ?? structuredData.reviewCount, 10);
+
+      if (isNaN(rating)) {
+        return null;
+      }
+
+      return {
+        platform: 'zomato',
+        rating,
+        reviewCount: isNaN(reviewCount) ? 0 : reviewCount,
+        url: page.url(),
+        lastUpdated: new Date(),
+      };
+    } catch (error) {
+      console.error('Zomato scraping error:', error);
+      return null;
+    }
+  }
+}
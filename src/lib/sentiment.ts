@@ -0,0 +1,184 @@
+/**
+ * Review text sentiment and aspects
+ *
+ * A small offline lexicon pass over the review snippets providers share
+ * (Google Places details, Yelp): no external service, no model download.
+ * Each sentence is checked for the aspects it talks about (food, service,
+ * value, ambiance, wait, noise) and given a polarity from general sentiment
+ * words plus words that only make sense for that aspect ("quiet", "slow"),
+ * with simple negation ("not great") and intensifiers ("really good").
+ *
+ * Scores run from -1 to 1 and always point the same way: positive is good,
+ * so a high noise score means quiet and a high wait score means fast.
+ */
+
+import { Aspect, AspectScore, PlatformReview, Restaurant } from '@/types';
+
+export const ASPECTS: Aspect[] = ['food', 'service', 'value', 'ambiance', 'wait', 'noise'];
+
+export const ASPECT_NAMES: Record<Aspect, string> = {
+  food: 'Food',
+  service: 'Service',
+  value: 'Value',
+  ambiance: 'Ambiance',
+  wait: 'Wait time',
+  noise: 'Noise',
+};
+
+// How each aspect reads as a filter ("show me quiet places")
+export const ASPECT_LABELS: Record<Aspect, string> = {
+  food: 'Great food',
+  service: 'Friendly service',
+  value: 'Good value',
+  ambiance: 'Nice atmosphere',
+  wait: 'Fast service',
+  noise: 'Quiet',
+};
+
+// An aspect passes a filter at this score or above
+export const ASPECT_MIN_SCORE = 0.2;
+
+// Words that put a sentence on an aspect
+const ASPECT_TERMS: Record<Aspect, string[]> = {
+  food: ['food', 'dish', 'dishes', 'meal', 'flavor', 'flavour', 'taste', 'tasty', 'menu', 'portion', 'portions',
+    'pizza', 'burger', 'sushi', 'pasta', 'steak', 'chicken', 'dessert', 'sauce', 'fries', 'noodles', 'tacos'],
+  service: ['service', 'staff', 'waiter', 'waitress', 'server', 'servers', 'host', 'hostess', 'bartender',
+    'owner', 'manager', 'employees'],
+  value: ['price', 'prices', 'priced', 'value', 'money', 'cost', 'bill', 'expensive', 'cheap', 'affordable',
+    'overpriced', 'deal', 'worth'],
+  ambiance: ['ambiance', 'ambience', 'atmosphere', 'decor', 'vibe', 'vibes', 'interior', 'setting', 'cozy',
+    'romantic', 'patio', 'view', 'music', 'lighting'],
+  wait: ['wait', 'waited', 'waiting', 'line', 'queue', 'reservation', 'minutes', 'hour', 'quick', 'fast', 'slow',
+    'prompt', 'forever'],
+  noise: ['noise', 'noisy', 'loud', 'quiet', 'crowded', 'packed', 'hear', 'conversation', 'peaceful'],
+};
+
+// General sentiment, any aspect
+const SENTIMENT: Record<string, number> = {
+  amazing: 2, excellent: 2, outstanding: 2, incredible: 2, perfect: 2, fantastic: 2, delicious: 2, best: 2,
+  wonderful: 2, superb: 2, great: 1.5, love: 1.5, loved: 1.5, awesome: 1.5, good: 1, nice: 1, friendly: 1,
+  fresh: 1, tasty: 1, attentive: 1, welcoming: 1, helpful: 1, recommend: 1, enjoyed: 1, pleasant: 1, cozy: 1,
+  reasonable: 1, worth: 1, affordable: 1, generous: 1, decent: 0.5, okay: 0, ok: 0, fine: 0.3,
+  bad: -1.5, terrible: -2, awful: -2, horrible: -2, worst: -2, disgusting: -2, rude: -2, inedible: -2,
+  bland: -1, cold: -0.8, stale: -1.5, greasy: -0.8, dirty: -1.5, mediocre: -1, disappointing: -1.5,
+  disappointed: -1.5, overpriced: -1.5, expensive: -0.8, pricey: -0.5, poor: -1.5, unfriendly: -1.5,
+  ignored: -1.5, dismissive: -1.5, soggy: -1, burnt: -1, overcooked: -1, undercooked: -1.5, meh: -0.8,
+};
+
+// Words whose meaning depends on the aspect
+const ASPECT_SENTIMENT: Partial<Record<Aspect, Record<string, number>>> = {
+  wait: {
+    quick: 1.5, fast: 1.5, prompt: 1.5, promptly: 1.5, quickly: 1.5, immediately: 1, 'no wait': 1.5,
+    slow: -1.5, forever: -2, 'long wait': -1.5, waited: -0.8, 'took ages': -1.5, delayed: -1,
+  },
+  noise: {
+    quiet: 1.5, peaceful: 1.5, calm: 1, relaxed: 1,
+    loud: -1.5, noisy: -1.5, deafening: -2, crowded: -0.8, packed: -0.5, 'not hear': -1.5,
+  },
+  value: {
+    cheap: 1, affordable: 1.5, reasonable: 1.5, 'worth it': 1.5, 'good value': 2, 'great value': 2, deal: 1,
+    overpriced: -2, expensive: -1, 'rip off': -2, pricey: -1,
+  },
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'hardly', 'barely', 'nothing', 'without']);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, so: 1.3, super: 1.5, extremely: 1.8, incredibly: 1.8 };
+const NEGATION_REACH = 3; // Tokens after a negation that it flips
+
+// Polarity scaled into -1..1; ~2 strong words in a sentence saturate it
+const POLARITY_SCALE = 3;
+
+function tokenize(sentence: string): string[] {
+  return sentence
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Words and two-word phrases in a sentence, with their position
+ */
+function terms(tokens: string[]): { term: string; index: number }[] {
+  return tokens.flatMap((token, index) => {
+    const pair = index + 1 < tokens.length ? [{ term: `${token} ${tokens[index + 1]}`, index }] : [];
+    return [{ term: token, index }, ...pair];
+  });
+}
+
+/**
+ * Polarity of one sentence about one aspect, -1..1
+ */
+function sentencePolarity(tokens: string[], aspect: Aspect): number {
+  const lexicon = { ...SENTIMENT, ...ASPECT_SENTIMENT[aspect] };
+  let total = 0;
+
+  for (const { term, index } of terms(tokens)) {
+    const value = lexicon[term];
+    if (value === undefined) continue;
+
+    const before = tokens.slice(Math.max(0, index - NEGATION_REACH), index);
+    const negated = before.some(t => NEGATIONS.has(t));
+    const intensity = INTENSIFIERS[tokens[index - 1]] ?? 1;
+    // "not great" is mildly negative, not the opposite of great
+    total += negated ? -value * 0.5 * intensity : value * intensity;
+  }
+
+  return Math.max(-1, Math.min(1, total / POLARITY_SCALE));
+}
+
+/**
+ * Aspect scores for a set of review texts
+ */
+export function analyzeTexts(texts: string[]): Partial<Record<Aspect, AspectScore>> {
+  const sums = new Map<Aspect, { total: number; mentions: number }>();
+
+  for (const text of texts) {
+    for (const sentence of text.split(/[.!?\n]+/)) {
+      const tokens = tokenize(sentence);
+      if (tokens.length === 0) continue;
+      const sentenceTerms = new Set(terms(tokens).map(t => t.term));
+
+      for (const aspect of ASPECTS) {
+        const mentioned = ASPECT_TERMS[aspect].some(t => sentenceTerms.has(t)) ||
+          Object.keys(ASPECT_SENTIMENT[aspect] ?? {}).some(t => sentenceTerms.has(t));
+        if (!mentioned) continue;
+
+        const sum = sums.get(aspect) ?? { total: 0, mentions: 0 };
+        sum.total += sentencePolarity(tokens, aspect);
+        sum.mentions += 1;
+        sums.set(aspect, sum);
+      }
+    }
+  }
+
+  const scores: Partial<Record<Aspect, AspectScore>> = {};
+  for (const [aspect, { total, mentions }] of sums) {
+    scores[aspect] = { score: Math.round((total / mentions) * 100) / 100, mentions };
+  }
+  return scores;
+}
+
+/**
+ * Aspect scores from every review snippet the providers shared
+ */
+export function analyzeReviews(reviews: PlatformReview[]): Partial<Record<Aspect, AspectScore>> | undefined {
+  const texts = reviews.flatMap(r => r.recentReviews ?? []).map(s => s.text).filter((t): t is string => !!t);
+  if (texts.length === 0) return undefined;
+  return analyzeTexts(texts);
+}
+
+/**
+ * Whether a restaurant's reviews back up every requested aspect. Places
+ * without review text can't show it, so they don't pass.
+ */
+export function meetsAspects(restaurant: Restaurant, aspects: Aspect[]): boolean {
+  return aspects.every(aspect => (restaurant.aspects?.[aspect]?.score ?? -Infinity) >= ASPECT_MIN_SCORE);
+}
+
+/**
+ * Sort key for an aspect: its score, with unknown below any real score
+ */
+export function aspectSortScore(restaurant: Restaurant, aspect: Aspect): number {
+  return restaurant.aspects?.[aspect]?.score ?? -2;
+}
@@ -0,0 +1,175 @@
+/**
+ * Time zone helpers
+ *
+ * The server runs in UTC (Netlify), but "open at 7pm" means 7pm where the
+ * diner and the restaurant are. These helpers read and build wall-clock
+ * times in an IANA zone using Intl, and work out the zone for a request
+ * from an explicit value or from the user's coordinates.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Zones don't move, so found zones are remembered for the process lifetime.
+// A failed lookup (quota, outage, no key) is only remembered briefly.
+const lookedUpZones = new Map<string, { zone: string | null; at: number }>();
+const FAILED_LOOKUP_TTL_MS = 10 * 60 * 1000;
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the string is an IANA zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ * Without a zone, the server's local time is used.
+ */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value])
+  );
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads the given time.
+ * Out-of-range values roll over like the Date constructor (day 32, minute 1500...).
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone?: string
+): Date {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute);
+  }
+
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Guess with the offset at the wall-clock time, then correct once for DST edges
+  let guess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+  guess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  return new Date(guess);
+}
+
+/**
+ * Minutes the zone is ahead of UTC at an instant (e.g. -240 for New York in summer)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Rough zone from longitude alone (15° per hour). Ignores borders and DST,
+ * so only used when nothing better is available.
+ */
+function approximateTimeZone(longitude: number): string {
+  const offset = Math.max(-12, Math.min(14, Math.round(longitude / 15)));
+  if (offset === 0) return 'Etc/GMT';
+  // Etc/GMT zones use inverted signs: Etc/GMT+5 is UTC-5
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+}
+
+/**
+ * Look up the zone for a coordinate with the Google Time Zone API
+ */
+async function lookupTimeZone(latitude: number, longitude: number): Promise<string | null> {
+  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+  if (!apiKey) return null;
+
+  const url = new URL('https://maps.googleapis.com/maps/api/timezone/json');
+  url.searchParams.set('location', `${latitude},${longitude}`);
+  url.searchParams.set('timestamp', Math.floor(Date.now() / 1000).toString());
+  url.searchParams.set('key', apiKey);
+
+  const response = await fetch(url.toString());
+  const data = await response.json();
+  return data.status === 'OK' ? data.timeZoneId : null;
+}
+
+/**
+ * Resolve the IANA zone for a request: an explicit, valid zone wins;
+ * otherwise it's derived from the coordinates; otherwise undefined (server time).
+ */
+export async function resolveTimeZone(options: {
+  timeZone?: string;
+  latitude?: number;
+  longitude?: number;
+}): Promise<string | undefined> {
+  const { timeZone, latitude, longitude } = options;
+  if (isValidTimeZone(timeZone)) return timeZone;
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  // A ~10km grid is plenty for zone boundaries
+  const key = `${latitude.toFixed(1)},${longitude.toFixed(1)}`;
+  const known = lookedUpZones.get(key);
+  if (!known || (known.zone === null && Date.now() - known.at > FAILED_LOOKUP_TTL_MS)) {
+    try {
+      lookedUpZones.set(key, { zone: await lookupTimeZone(latitude, longitude), at: Date.now() });
+    } catch (error) {
+      console.error('Time zone lookup error:', error);
+      lookedUpZones.set(key, { zone: null, at: Date.now() });
+    }
+  }
+
+  const found = lookedUpZones.get(key)?.zone;
+  return isValidTimeZone(found ?? undefined) ? found! : approximateTimeZone(longitude);
+}
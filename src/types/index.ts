@@ -1,22 +1,118 @@
+// Platforms that ship with the app. Any other string is a valid platform id
+// too, so a new source only needs registering (see lib/platforms), not a type change.
+export type KnownPlatform = 'google' | 'yelp' | 'tripadvisor' | 'foursquare' | 'zomato' | 'opentable';
+export type PlatformId = KnownPlatform | (string & {});
+
 export interface PlatformReview {
-  platform: 'google' | 'yelp' | 'tripadvisor' | 'foursquare' | 'zomato';
-  rating: number; // normalized to 0-5 scale
+  platform: PlatformId;
+  rating: number; // normalized to 0-5 scale (calibrated across platforms once rawRating is set)
+  rawRating?: number; // As published, before calibration (see lib/calibration)
   reviewCount: number;
   url?: string;
+  externalId?: string; // The platform's own id for the place, for follow-up lookups
   lastUpdated?: Date;
+  matchConfidence?: number; // 0-1, how sure we are this is the same restaurant
+  categories?: string[]; // Platform categories/attributes (aliases, cuisines, dietary tags)
+  cuisines?: string[]; // Categories mapped onto the cuisine taxonomy (see lib/cuisine)
+  recentReviews?: ReviewSample[]; // Newest reviews the provider would share
+}
+
+export interface ReviewSample {
+  rating: number; // Raw stars, 1-5
+  time: string; // ISO, when the review was written
+  text?: string;
 }
 
+// A platform's rating as seen at one moment (see lib/history)
+export interface RatingSnapshot {
+  platform: PlatformId;
+  rating: number; // As published, before calibration
+  reviewCount: number;
+  at: string; // ISO
+}
+
+// A platform's rating falling sharply over a few weeks
+export interface RatingDrop {
+  platform: PlatformId;
+  from: number;
+  to: number;
+  since: string; // ISO, when it was at `from`
+  at: string; // ISO, when it was seen at `to`
+}
+
+// A reason to trust one platform's rating less (see lib/anomaly)
+export interface ReviewAnomaly {
+  platform: PlatformId;
+  kind: 'outlier' | 'implausible' | 'burst';
+  weight: number; // Multiplier on the platform's weight in the aggregate, 0-1
+  reason: string;
+}
+
+// Recent reviews sharply better or worse than the lifetime rating
+export interface ReviewTrend {
+  direction: 'up' | 'down';
+  recentRating: number;
+  lifetimeRating: number;
+  sampleSize: number;
+}
+
+export type TravelMode = 'walk' | 'bike' | 'drive' | 'transit';
+// 'best' scores each place by whichever mode gets there fastest
+export type TravelModePreference = TravelMode | 'best';
+
+// How several people's travel times combine into one (see lib/meeting)
+export type FairnessObjective = 'min_max' | 'min_sum' | 'within';
+
+export interface PersonTravelTime {
+  label: string;
+  minutes: number;
+  mode: TravelMode;
+}
+
+// Learned from the user's accept/skip/visit history (see lib/preferences)
+export interface PreferenceProfile {
+  cuisineAffinity: Record<string, number>; // Cuisine id -> -1 (always skipped) to 1 (always chosen)
+  lastVisited: Record<string, string>; // Restaurant id -> ISO time of the last accept or visit
+  cooldownDays?: number; // Recently visited places are demoted for this long (default 7)
+}
+
+// Which rating ranking uses: the aggregate, or the top/bottom of its credible interval
+export type RankingMode = 'expected' | 'optimistic' | 'pessimistic';
+
+// Shape of the travel-time and price penalties in the value score (see lib/ranking)
+export interface ValueCurveConfig {
+  decayAtLimit: number; // How much the time factor has dropped at maxTravelTime (default 0.3)
+  overtimeSlope: number; // Extra drop per maxTravelTime beyond the limit (default 0.4)
+  exceptionalOvertimeSlope: number; // Same, for exceptional places (default 0.1)
+  minTimeFactor: number; // Floor for the time factor (default 0.3)
+  exceptionalBonus: number; // Stars added to exceptional places (default 0.2)
+  pricePenaltyPerLevel: number; // Fraction of the score lost per $ above $ (default 0, price ignored)
+}
+
+// What review text talks about (see lib/sentiment)
+export type Aspect = 'food' | 'service' | 'value' | 'ambiance' | 'wait' | 'noise';
+
+export interface AspectScore {
+  score: number; // -1 to 1, positive is good (quiet, short wait...)
+  mentions: number; // Sentences it was based on
+}
+
+export type DietaryNeed = 'vegetarian' | 'vegan' | 'gluten_free' | 'halal' | 'kosher';
+
 export interface Restaurant {
   id: string;
   name: string;
   address: string;
-  cuisine?: string;
+  cuisine?: string; // Display label of the primary cuisine
+  cuisineIds?: string[]; // Taxonomy ids, best supported first
   priceLevel?: string; // $, $$, $$$, $$$$
   imageUrl?: string;
   photoUrl?: string;
+  photoUrls?: string[]; // Detail view: every photo Google shares
   reviews: PlatformReview[];
   aggregatedScore: number;
   confidence: number; // 0-1, based on data quality
+  ratingInterval?: CredibleInterval;
   latitude?: number;
   longitude?: number;
   hours?: string[]; // Operating hours per day
@@ -24,14 +120,74 @@ export interface Restaurant {
   openUntil?: string;
   distanceKm?: number;
   travelTimeMin?: number;
+  travelMode?: TravelMode; // Which mode travelTimeMin refers to
   walkTimeMin?: number;
+  bikeTimeMin?: number;
   driveTimeMin?: number;
+  transitTimeMin?: number;
+  personTravelTimes?: PersonTravelTime[]; // Multi-origin searches: each person's trip
   valueScore?: number;
+  personalAdjustment?: number; // Stars added/removed by the user's learned preferences and favorites
+  isFavorite?: boolean;
   isExceptional?: boolean;
+  trend?: ReviewTrend;
+  ratingDrops?: RatingDrop[];
+  anomalies?: ReviewAnomaly[]; // Why some platforms counted for less
+  aspects?: Partial<Record<Aspect, AspectScore>>; // From review text, when providers shared any
   phoneNumber?: string;
   website?: string;
   googleMapsUrl?: string;
   types?: string[];
+  dietaryMatch?: Partial<Record<DietaryNeed, number>>; // 0-1 confidence per requested need
+  explanation?: ScoreExplanation;
+}
+
+// Where the true rating probably lies, from all platforms' reviews pooled
+export interface CredibleInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+  level: number; // e.g. 0.9 for a 90% interval
+}
+
+export interface PlatformContribution {
+  platform: PlatformId;
+  rating: number; // As aggregated (calibrated unless turned off)
+  rawRating?: number; // As published, when calibration changed it
+  adjustedRating: number; // After Bayesian shrinkage or recency blending (the same as rating for other strategies)
+  weight: number; // Share of the aggregate, 0-1
+  contribution: number; // Stars this platform adds to the aggregate
+}
+
+export interface AggregateExplanation {
+  strategy: WeightingStrategy;
+  score: number;
+  platforms: PlatformContribution[];
+}
+
+export interface ConfidenceExplanation {
+  score: number;
+  platform: number; // 0-1, how many platforms have data
+  volume: number; // 0-1, how many reviews in total
+  consistency: number; // 0-1, how much the platforms agree
+}
+
+export interface ValueExplanation {
+  score: number;
+  rating: number;
+  exceptionalBonus: number; // Stars added for an exceptional place (0 otherwise)
+  timeFactor: number;
+  priceFactor: number;
+  travelTimeMin: number;
+  maxTravelTimeMin: number;
+}
+
+// Why a restaurant scored what it did, for the "why this pick" panel
+export interface ScoreExplanation {
+  aggregate: AggregateExplanation;
+  confidence: ConfidenceExplanation;
+  value?: ValueExplanation;
+  rankingMode?: RankingMode;
 }
 
 export type WeightingStrategy = 
@@ -39,13 +195,16 @@ export type WeightingStrategy =
   | 'review_count_weighted'
   | 'bayesian_average'
   | 'confidence_weighted'
-  | 'platform_trust';
+  | 'platform_trust'
+  | 'recency_weighted';
 
 export interface WeightingConfig {
   strategy: WeightingStrategy;
   platformWeights?: Record<string, number>; // for platform_trust strategy
   bayesianPrior?: number; // for bayesian_average (default: 3.5)
   bayesianMinReviews?: number; // for bayesian_average (default: 10)
+  recentWindowDays?: number; // for recency_weighted (default: 180)
+  calibrate?: boolean; // Map each platform's ratings onto a common scale first (default: true)
 }
 
 export interface SearchParams {
@@ -54,10 +213,70 @@ export interface SearchParams {
   weightingConfig: WeightingConfig;
   userLat?: number;
   userLon?: number;
+  origins?: { label?: string; latitude: number; longitude: number; travelMode?: TravelModePreference }[];
+  fairness?: FairnessObjective; // For multiple origins (default 'min_max')
   maxTravelTimeMin?: number;
+  travelMode?: TravelModePreference; // Default 'drive'
+  rankingProfile?: {
+    travelAversion?: number; // 0-1, how much travel time should hurt the value score
+    budgetSensitivity?: number; // 0-1, how much pricier places should hurt the value score
+    valueCurve?: Partial<ValueCurveConfig>; // Explicit values win over travelAversion
+    mode?: RankingMode; // Default 'expected'
+    exceptionalThreshold?: number;
+    exceptionalReviewMin?: number;
+  };
   openNowOnly?: boolean;
+  price?: { min?: number; max?: number }; // Price levels 1 ($) to 4 ($$$$), inclusive
+  dietary?: DietaryNeed[]; // Every need must be catered for
+  cuisines?: { include?: string[]; exclude?: string[] }; // Taxonomy ids; a family covers its children
+  surpriseMe?: boolean; // Favour cuisines outside recentCuisines and vary consecutive picks
+  recentCuisines?: string[];
+  personalization?: PreferenceProfile;
+  aspects?: Aspect[]; // Review text must speak well of every one ("quiet", "fast service")
+  sortByAspect?: Aspect; // Order by what reviews say about this instead of the value score
+  favorites?: string[]; // Place ids to boost
+  blocked?: string[]; // Place ids never to return
+  favoriteBoost?: number; // Stars added to favorites (default 0.3, 0 to turn off)
+  plannedTime?: string | { start: string; end?: string }; // 'now', a preset, ISO datetime/interval or "Saturday 7-9pm"
+  diningDurationMin?: number; // How long the place must stay open after arrival (default 60)
+  timeZone?: string; // IANA zone of the diner, e.g. "America/New_York"
+}
+
+export type GroupVote = 'yes' | 'no';
+
+export interface GroupMember {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  travelMode: TravelModePreference;
+  maxTravelTimeMin: number;
+  dietary?: DietaryNeed[];
+  token: string; // Secret sent only to the member who joined; proves a vote is theirs
 }
 
+export interface GroupCandidate {
+  restaurant: Restaurant;
+  memberTravelTimes: Record<string, number>; // Member id -> minutes, by that member's travel mode
+  groupTravelTimeMin: number; // The slowest member's trip
+}
+
+export interface GroupSession {
+  id: string;
+  name?: string;
+  createdAt: string; // ISO
+  plannedTime?: SearchParams['plannedTime'];
+  timeZone?: string;
+  members: GroupMember[];
+  candidates: GroupCandidate[]; // Best first
+  votes: Record<string, Record<string, GroupVote>>; // Restaurant id -> member id -> vote
+  winnerId?: string; // First candidate every member said yes to
+}
+
+// What anyone holding the share link sees: no member's exact location or token
+export type PublicGroupMember = Omit<GroupMember, 'latitude' | 'longitude' | 'token'>;
+export type PublicGroupSession = Omit<GroupSession, 'members'> & { members: PublicGroupMember[] };
+
 export interface ScrapingResult {
   success: boolean;
   data?: PlatformReview;